@@ -0,0 +1,83 @@
+// Moves avatars that were saved as base64 data URLs in users.avatar_url into the
+// `avatars` storage bucket. The 20251019170000 migration copies them to
+// `legacy_avatars` and clears avatar_url; run this once afterwards:
+//
+//   npm run migrate:avatars
+//
+// The image is uploaded as is for both sizes, since there is no image library on the
+// server. Users get a properly cropped pair the next time they change their picture.
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '../src/config/supabase.js';
+
+const BUCKET = 'avatars';
+
+const EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+const parseDataUrl = (dataUrl) => {
+  const match = /^data:([^;,]+);base64,(.+)$/s.exec(dataUrl);
+  if (!match || !EXTENSIONS[match[1]]) return null;
+  return { contentType: match[1], body: Buffer.from(match[2], 'base64') };
+};
+
+const migrateAvatar = async ({ user_id: userId, data_url: dataUrl }) => {
+  const image = parseDataUrl(dataUrl);
+  if (!image) {
+    console.warn(`Skipping ${userId}: not a JPEG, PNG or WebP data URL`);
+    return false;
+  }
+
+  const name = `${userId}/${randomUUID()}`;
+  const extension = EXTENSIONS[image.contentType];
+  const path = `${name}.${extension}`;
+  const options = { contentType: image.contentType, cacheControl: '31536000', upsert: false };
+
+  for (const filePath of [path, `${name}-small.${extension}`]) {
+    const { error } = await supabaseAdmin.storage.from(BUCKET).upload(filePath, image.body, options);
+    if (error) throw error;
+  }
+
+  const { data: { publicUrl } } = supabaseAdmin.storage.from(BUCKET).getPublicUrl(path);
+
+  // Users who picked a new avatar since the migration keep it
+  const { error: updateError } = await supabaseAdmin
+    .from('users')
+    .update({ avatar_url: publicUrl })
+    .eq('id', userId)
+    .is('avatar_url', null);
+  if (updateError) throw updateError;
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('legacy_avatars')
+    .delete()
+    .eq('user_id', userId);
+  if (deleteError) throw deleteError;
+
+  return true;
+};
+
+const main = async () => {
+  const { data: rows, error } = await supabaseAdmin
+    .from('legacy_avatars')
+    .select('user_id, data_url');
+  if (error) throw error;
+
+  let migrated = 0;
+  for (const row of rows) {
+    try {
+      if (await migrateAvatar(row)) migrated += 1;
+    } catch (migrateError) {
+      console.error(`Failed to migrate the avatar of ${row.user_id}:`, migrateError);
+    }
+  }
+
+  console.log(`Migrated ${migrated} of ${rows.length} legacy avatars`);
+};
+
+main().catch((error) => {
+  console.error('Avatar migration failed:', error);
+  process.exit(1);
+});
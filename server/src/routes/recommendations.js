@@ -34,7 +34,7 @@ router.get('/personalized', authenticateToken, async (req, res) => {
       .from('posts')
       .select(`
         id, name, description, price, media_urls, type, product_link,
-        created_at,
+        created_at, body_types, style_tags, color_seasons, gender_fit,
         users!posts_author_id_fkey (
           id, name, avatar_url, category, is_influencer
         )
@@ -43,12 +43,6 @@ router.get('/personalized', authenticateToken, async (req, res) => {
       .order('created_at', { ascending: false })
       .limit(limit);
 
-    // Filter by user preferences if available
-    if (userProfile.style_preference) {
-      // This would need a more sophisticated matching algorithm
-      // For now, we'll just get recent posts
-    }
-
     const { data: posts, error } = await query;
 
     if (error) {
@@ -190,8 +184,23 @@ function calculateRecommendationScore(post, userProfile) {
   const daysSincePost = (Date.now() - new Date(post.created_at).getTime()) / (24 * 60 * 60 * 1000);
   score += Math.max(0, 7 - daysSincePost) * 0.1;
 
-  // Category matching
-  if (userProfile.style_preference) {
+  // Posts tagged for the user's body type, palette and style
+  if (userProfile.body_type && post.body_types?.includes(userProfile.body_type)) {
+    score += 1.5;
+  }
+  if (userProfile.color_season && post.color_seasons?.includes(userProfile.color_season)) {
+    score += 1.25;
+  }
+  if (userProfile.style_preference && post.style_tags?.includes(userProfile.style_preference)) {
+    score += 1;
+  }
+  const gender = userProfile.gender;
+  if (gender && post.gender_fit && post.gender_fit !== 'unisex' && post.gender_fit !== gender) {
+    score -= 2;
+  }
+
+  // Category matching, for posts that aren't tagged
+  if (userProfile.style_preference && !post.style_tags?.length) {
     const categoryMap = {
       'casual': ['Fashion & Style', 'Lifestyle'],
       'formal': ['Fashion & Style'],
@@ -1,9 +1,13 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/ThemeProvider";
+import OutboxSync from "@/components/OutboxSync";
+import LegacyFollowsSync from "@/components/LegacyFollowsSync";
+import RealtimeSync from "@/components/RealtimeSync";
+import { queryClient } from "@/lib/queryClient";
 // Removed local AuthProvider; the app is wrapped at the root level in main.tsx
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
@@ -21,8 +25,6 @@ import Terms from "./pages/Terms";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import CookiePolicy from "./pages/CookiePolicy";
 
-const queryClient = new QueryClient();
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider
@@ -35,6 +37,9 @@ const App = () => (
         {/* AuthProvider is provided at the root (main.tsx) */}
         <Toaster />
         <Sonner />
+        <OutboxSync />
+        <RealtimeSync />
+        <LegacyFollowsSync />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
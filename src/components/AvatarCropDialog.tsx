@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Slider } from "@/components/ui/slider";
+import { apiClient } from "@/lib/api";
+import { getErrorMessage } from "@/lib/apiError";
+import { CROP_VIEWPORT, clampCrop, cropAvatar, cropScale, type AvatarCrop } from "@/lib/avatar";
+
+const MAX_ZOOM = 3;
+
+interface AvatarCropDialogProps {
+  // The picked image; the dialog is open while there is one
+  file: File | null;
+  onOpenChange: (open: boolean) => void;
+  // Called with the public URL of the uploaded avatar
+  onSave: (url: string) => Promise<void>;
+}
+
+/**
+ * Drag and zoom a picked image inside a circle, then upload the crop as the new avatar
+ */
+const AvatarCropDialog: React.FC<AvatarCropDialogProps> = ({ file, onOpenChange, onSave }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: AvatarCrop } | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<AvatarCrop>({ zoom: 1, x: 0, y: 0 });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+    setSize(null);
+    setCrop({ zoom: 1, x: 0, y: 0 });
+    setError(undefined);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const updateCrop = (next: AvatarCrop) => {
+    if (size) setCrop(clampCrop(size.width, size.height, next));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { pointerX: event.clientX, pointerY: event.clientY, crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    updateCrop({
+      ...start.crop,
+      x: start.crop.x + event.clientX - start.pointerX,
+      y: start.crop.y + event.clientY - start.pointerY,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!imageRef.current || !size) return;
+    setIsSaving(true);
+    setError(undefined);
+    try {
+      const { url } = await apiClient.uploadAvatar(await cropAvatar(imageRef.current, crop));
+      await onSave(url);
+      onOpenChange(false);
+    } catch (saveError) {
+      setError(getErrorMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const scale = size ? cropScale(size.width, size.height, crop.zoom) : 1;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Crop Profile Picture</DialogTitle>
+          <DialogDescription>Drag to reposition and use the slider to zoom.</DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="relative mx-auto cursor-move touch-none overflow-hidden rounded-full bg-muted ring-2 ring-primary"
+          style={{ width: CROP_VIEWPORT, height: CROP_VIEWPORT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragStart.current = null)}
+          onPointerCancel={() => (dragStart.current = null)}
+        >
+          {imageUrl && (
+            <img
+              ref={imageRef}
+              src={imageUrl}
+              alt="New profile picture"
+              draggable={false}
+              className="absolute left-1/2 top-1/2 max-w-none select-none"
+              style={
+                size
+                  ? {
+                      width: size.width * scale,
+                      height: size.height * scale,
+                      transform: `translate(calc(-50% + ${crop.x}px), calc(-50% + ${crop.y}px))`,
+                    }
+                  : { visibility: "hidden" }
+              }
+              onLoad={(event) =>
+                setSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })
+              }
+            />
+          )}
+        </div>
+
+        <Slider
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={[crop.zoom]}
+          onValueChange={([zoom]) => updateCrop({ ...crop, zoom })}
+          disabled={!size || isSaving}
+          aria-label="Zoom"
+        />
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!size || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AvatarCropDialog;
@@ -0,0 +1,84 @@
+import { Link, useNavigate } from "react-router-dom";
+import { Sparkles } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import ShopPostCard from "./ShopPostCard";
+import FollowButton from "./FollowButton";
+import { useAuth } from "@/hooks/useAuth";
+import { useRecommendations } from "@/hooks/useRecommendations";
+import { smallAvatarUrl } from "@/lib/avatar";
+
+const CREATOR_COUNT = 3;
+const POST_COUNT = 24;
+
+/**
+ * Creators and posts ranked for the current user, each with the reason it was picked
+ */
+const DiscoverFeed = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { posts, creators, isLoading, isError } = useRecommendations();
+
+  if (isLoading) {
+    return <p className="text-center text-muted-foreground py-12">Finding picks for you...</p>;
+  }
+
+  if (isError) {
+    return <p className="text-center text-muted-foreground py-12">Couldn't load recommendations. Please try again.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {creators.length > 0 && (
+        <div>
+          <h3 className="text-xl font-semibold mb-4">Creators for you</h3>
+          <div className="grid md:grid-cols-3 gap-6">
+            {creators.slice(0, CREATOR_COUNT).map(({ creator, reason }) => (
+              <Card key={creator.id}>
+                <CardContent className="p-6 text-center">
+                  <Link to={`/influencer/${creator.id}`} className="group">
+                    <img
+                      src={smallAvatarUrl(creator.avatar_url) || "/placeholder.svg"}
+                      alt={creator.name}
+                      className="w-20 h-20 rounded-full mx-auto mb-4 object-cover"
+                    />
+                    <h4 className="font-semibold mb-1 group-hover:underline">{creator.name}</h4>
+                  </Link>
+                  {creator.category && <p className="text-sm text-gray-600 mb-2">{creator.category}</p>}
+                  <p className="text-xs text-brand-600 mb-4">{reason}</p>
+                  <FollowButton user={creator} size="sm" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-xl font-semibold mb-4">Picked for {user?.name || "you"}</h3>
+        {posts.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">
+            Nothing new to recommend right now. Check back once creators post more.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {posts.slice(0, POST_COUNT).map(({ post, reasons }) => (
+              <div key={post.id} className="space-y-2">
+                <ShopPostCard post={post} onClick={() => navigate(`/shop/post/${post.id}`)} />
+                <ul className="space-y-1 px-1">
+                  {reasons.slice(0, 2).map((reason) => (
+                    <li key={reason} className="flex items-center gap-1.5 text-xs text-brand-600">
+                      <Sparkles className="h-3 w-3 shrink-0" />
+                      {reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiscoverFeed;
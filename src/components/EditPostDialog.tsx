@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import PostFormFields from "./PostFormFields";
+import { useUpdatePost } from "@/hooks/usePosts";
+import { apiClient } from "@/lib/api";
+import { mediaFiles } from "@/lib/media";
+import { diffPostFields, postFormDataFromPost, validatePostForm, type PostFormData } from "@/lib/postForm";
+import type { Post } from "@/lib/api";
+
+interface EditPostDialogProps {
+  post: Post;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface EditPostFormProps {
+  post: Post;
+  onDone: () => void;
+}
+
+const EditPostForm: React.FC<EditPostFormProps> = ({ post, onDone }) => {
+  const initialFormData = useMemo(() => postFormDataFromPost(post), [post]);
+  const [formData, setFormData] = useState<PostFormData>(initialFormData);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [isUploading, setIsUploading] = useState(false);
+  const updatePost = useUpdatePost();
+  const isDraft = post.is_published === false;
+
+  // However the dialog closes without saving, files uploaded for this edit belong to no post
+  const pending = useRef({ formData, saved: false });
+  pending.current.formData = formData;
+  useEffect(() => {
+    const { current } = pending;
+    return () => {
+      if (current.saved) return;
+      const saved = mediaFiles(initialFormData.media_urls, initialFormData.media_meta);
+      const unsaved = mediaFiles(current.formData.media_urls, current.formData.media_meta).filter(
+        (file) => !saved.includes(file)
+      );
+      if (unsaved.length === 0) return;
+      apiClient.deleteMedia(unsaved).catch((error) => {
+        console.warn("Could not delete discarded uploads:", error);
+      });
+    };
+  }, [initialFormData]);
+
+  // Diff both versions after the same conversion, so untouched fields compare equal
+  const before = validatePostForm(initialFormData, false);
+  const after = validatePostForm(formData, false);
+  const { changes, update } =
+    "fields" in before && "fields" in after
+      ? diffPostFields(before.fields, after.fields)
+      : { changes: [], update: {} };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Published posts must stay complete; drafts only need a name
+    const result = validatePostForm(formData, !isDraft);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    if (update.publish_at && new Date(update.publish_at) <= new Date()) {
+      setError("Scheduled time must be in the future");
+      return;
+    }
+
+    setError(undefined);
+    pending.current.saved = true;
+    updatePost.mutate({ id: post.id, data: update });
+    // Close straight away: the feeds already show the edit while it saves
+    onDone();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <PostFormFields
+        value={formData}
+        onChange={setFormData}
+        scheduleHint="Changing this reschedules the post. It stays hidden until the new time."
+        onUploadingChange={setIsUploading}
+      />
+
+      {changes.length > 0 && (
+        <div className="rounded-md border bg-muted/40 p-3 space-y-2">
+          <p className="text-sm font-medium">
+            {changes.length === 1 ? "1 change" : `${changes.length} changes`}
+          </p>
+          <ul className="space-y-1 text-sm">
+            {changes.map((change) => (
+              <li key={change.label} className="grid grid-cols-[auto_1fr] gap-x-2">
+                <span className="text-muted-foreground">{change.label}:</span>
+                <span className="flex min-w-0 items-center gap-1">
+                  <span className="truncate line-through text-muted-foreground">{change.before || "Empty"}</span>
+                  <ArrowRight className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{change.after || "Empty"}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={changes.length === 0 || isUploading}>
+          {isUploading ? "Uploading Media..." : "Save Changes"}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+/**
+ * Edits an existing post with the same fields as the new post form, listing what changed
+ * before it's saved
+ */
+const EditPostDialog: React.FC<EditPostDialogProps> = ({ post, open, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+      <DialogHeader>
+        <DialogTitle>Edit Post</DialogTitle>
+        <DialogDescription>
+          {post.is_published === false
+            ? "This is a draft, so only the name is required."
+            : "Changes go live as soon as you save."}
+        </DialogDescription>
+      </DialogHeader>
+      {/* Remount per post so the form starts from that post's saved values */}
+      {open && <EditPostForm key={post.id} post={post} onDone={() => onOpenChange(false)} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default EditPostDialog;
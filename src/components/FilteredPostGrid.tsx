@@ -0,0 +1,82 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useInfinitePosts } from "@/hooks/usePosts";
+import { useNewPosts } from "@/hooks/useNewPosts";
+import type { PostFilters, PostSort } from "@/lib/postFilters";
+import ShopPostCard from "./ShopPostCard";
+import PostMasonryGrid from "./PostMasonryGrid";
+import InfiniteScrollLoader from "./InfiniteScrollLoader";
+import NewPostsBanner from "./NewPostsBanner";
+
+interface FilteredPostGridProps {
+  filters: PostFilters;
+  sort?: PostSort;
+  onClearFilters?: () => void;
+  emptyMessage?: string;
+}
+
+const FilteredPostGrid = ({
+  filters,
+  sort,
+  onClearFilters,
+  emptyMessage = "No posts match these filters.",
+}: FilteredPostGridProps) => {
+  const navigate = useNavigate();
+  const { data, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfinitePosts({
+    ...filters,
+    sort,
+  });
+
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.posts) || [], [data]);
+  const loadedPostIds = useMemo(() => new Set(posts.map((post) => post.id)), [posts]);
+  const { newPosts, reveal } = useNewPosts(filters, loadedPostIds);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">Loading posts...</p>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">Couldn't load posts. Please try again.</p>
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12 border-2 border-dashed border-border rounded-lg">
+        <NewPostsBanner count={newPosts.length} onReveal={reveal} />
+        <p className="text-muted-foreground">{emptyMessage}</p>
+        {onClearFilters && (
+          <Button variant="outline" className="mt-4" onClick={onClearFilters}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <NewPostsBanner count={newPosts.length} onReveal={reveal} />
+      <PostMasonryGrid
+        posts={posts}
+        renderPost={(post) => <ShopPostCard post={post} onClick={() => navigate(`/shop/post/${post.id}`)} />}
+      />
+      <InfiniteScrollLoader
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        onLoadMore={() => fetchNextPage()}
+        endMessage="You've seen all matching posts"
+      />
+    </div>
+  );
+};
+
+export default FilteredPostGrid;
@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button";
+import { UserPlus, UserCheck } from "lucide-react";
+import { useFollow } from "@/hooks/useFollows";
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import type { UserCard } from "@/lib/api";
+
+interface FollowButtonProps {
+  user: Pick<UserCard, "id" | "name">;
+  size?: "default" | "sm";
+}
+
+const FollowButton = ({ user, size = "default" }: FollowButtonProps) => {
+  const { user: currentUser, isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const { isFollowing, toggle, isPending } = useFollow(user);
+
+  // Nobody can follow themselves
+  if (currentUser?.id === user.id) return null;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!isAuthenticated) {
+      navigate("/auth");
+      return;
+    }
+    toggle();
+  };
+
+  const Icon = isFollowing ? UserCheck : UserPlus;
+  return (
+    <Button
+      onClick={handleClick}
+      size={size}
+      variant={isFollowing ? "outline" : "default"}
+      className={isFollowing ? "border-brand-600 text-brand-600" : ""}
+      disabled={isPending}
+    >
+      <Icon className="mr-1 h-4 w-4" />
+      {isFollowing ? "Following" : "Follow"}
+    </Button>
+  );
+};
+
+export default FollowButton;
@@ -0,0 +1,89 @@
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import FollowButton from "./FollowButton";
+import InfiniteScrollLoader from "./InfiniteScrollLoader";
+import { useFollowers, useFollowing } from "@/hooks/useFollows";
+import { smallAvatarUrl } from "@/lib/avatar";
+
+export type FollowListKind = "followers" | "following";
+
+interface FollowListDialogProps {
+  user: { id: string; name: string };
+  kind: FollowListKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Who follows a user, or who they follow, each with a link to their profile and a follow
+ * button of their own
+ */
+const FollowListDialog = ({ user, kind, open, onOpenChange }: FollowListDialogProps) => {
+  const followers = useFollowers(user.id, { enabled: open && kind === "followers" });
+  const following = useFollowing(user.id, { enabled: open && kind === "following" });
+  const { data, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    kind === "followers" ? followers : following;
+  const users = data?.pages.flatMap((page) => page.users) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{kind === "followers" ? "Followers" : "Following"}</DialogTitle>
+          <DialogDescription>
+            {kind === "followers" ? `People following ${user.name}` : `People ${user.name} follows`}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="py-6 text-center text-muted-foreground">Loading...</p>
+        ) : isError ? (
+          <p className="py-6 text-center text-muted-foreground">Couldn't load this list. Please try again.</p>
+        ) : users.length === 0 && !hasNextPage ? (
+          <p className="py-6 text-center text-muted-foreground">
+            {kind === "followers" ? "No followers yet." : "Not following anyone yet."}
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto pr-1">
+            <ul className="space-y-3">
+              {users.map((listed) => (
+                <li key={listed.id} className="flex items-center justify-between gap-3">
+                  <Link
+                    to={`/influencer/${listed.id}`}
+                    onClick={() => onOpenChange(false)}
+                    className="flex min-w-0 items-center gap-3 group"
+                  >
+                    <img
+                      src={smallAvatarUrl(listed.avatar_url) || "/placeholder.svg"}
+                      alt=""
+                      className="h-10 w-10 shrink-0 rounded-full object-cover"
+                    />
+                    <div className="min-w-0">
+                      <div className="truncate font-medium group-hover:underline">{listed.name}</div>
+                      {listed.category && (
+                        <div className="truncate text-sm text-muted-foreground">{listed.category}</div>
+                      )}
+                    </div>
+                  </Link>
+                  <FollowButton user={listed} size="sm" />
+                </li>
+              ))}
+            </ul>
+            <InfiniteScrollLoader
+              hasNextPage={!!hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              onLoadMore={() => fetchNextPage()}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FollowListDialog;
@@ -0,0 +1,157 @@
+import { Fragment, useEffect, useMemo } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { CheckCircle2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import ShopPostCard from "./ShopPostCard";
+import FollowButton from "./FollowButton";
+import InfiniteScrollLoader from "./InfiniteScrollLoader";
+import NewPostsBanner from "./NewPostsBanner";
+import { useAuth } from "@/hooks/useAuth";
+import { useFollowingIds } from "@/hooks/useFollows";
+import { useFollowingFeed } from "@/hooks/usePosts";
+import { useInfluencers } from "@/hooks/useUsers";
+import { useNewPosts } from "@/hooks/useNewPosts";
+import { smallAvatarUrl } from "@/lib/avatar";
+import { readFeedLastSeen, saveFeedLastSeen } from "@/lib/feedLastSeen";
+import type { PostFilters } from "@/lib/postFilters";
+
+const SUGGESTION_COUNT = 6;
+
+// New posts are matched on their author instead
+const NO_FILTERS: PostFilters = {};
+
+const FollowSuggestions = () => {
+  const { user } = useAuth();
+  const { data, isLoading } = useInfluencers();
+  const suggestions = (data?.users || []).filter((influencer) => influencer.id !== user?.id).slice(0, SUGGESTION_COUNT);
+
+  if (isLoading) {
+    return <p className="text-center text-muted-foreground py-6">Loading suggestions...</p>;
+  }
+
+  return (
+    <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      {suggestions.map((influencer) => (
+        <Card key={influencer.id}>
+          <CardContent className="p-6 text-center">
+            <Link to={`/influencer/${influencer.id}`} className="group">
+              <img
+                src={smallAvatarUrl(influencer.avatar_url) || "/placeholder.svg"}
+                alt={influencer.name}
+                className="w-20 h-20 rounded-full mx-auto mb-4 object-cover"
+              />
+              <h4 className="font-semibold mb-1 group-hover:underline">{influencer.name}</h4>
+            </Link>
+            {influencer.category && <p className="text-sm text-gray-600 mb-4">{influencer.category}</p>}
+            <FollowButton user={influencer} size="sm" />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+const CaughtUpMarker = () => (
+  <div className="col-span-full flex items-center gap-3 py-2 text-sm text-muted-foreground">
+    <div className="h-px flex-1 bg-border" />
+    <CheckCircle2 className="h-4 w-4 text-brand-600" />
+    <span>You're all caught up. Posts below were here on your last visit.</span>
+    <div className="h-px flex-1 bg-border" />
+  </div>
+);
+
+/**
+ * Published posts from the creators the user follows, newest first, with a marker where the
+ * posts seen on their last visit begin. Suggests creators to follow until they follow some.
+ */
+const FollowingFeed = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { data: followingIds, isLoading: idsLoading } = useFollowingIds();
+  const { data, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage } = useFollowingFeed();
+
+  // Read once per visit, so the marker stays put while this visit is being recorded
+  const lastSeen = useMemo(() => (userId ? readFeedLastSeen(userId) : null), [userId]);
+
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.posts) || [], [data]);
+  const loadedPostIds = useMemo(() => new Set(posts.map((post) => post.id)), [posts]);
+  const { newPosts, reveal } = useNewPosts(NO_FILTERS, loadedPostIds);
+  const newFollowedPosts = newPosts.filter((post) => post.author_id && followingIds?.has(post.author_id));
+
+  const newestPublishAt = posts[0]?.publish_at;
+  useEffect(() => {
+    if (userId && newestPublishAt) saveFeedLastSeen(userId, newestPublishAt);
+  }, [userId, newestPublishAt]);
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <Users className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold mb-2">See posts from creators you follow</h3>
+        <p className="text-gray-600 mb-6">Sign in to follow your favorite creators and keep up with their latest picks</p>
+        <Button onClick={() => navigate("/auth")}>Sign in</Button>
+      </div>
+    );
+  }
+
+  if (idsLoading || isLoading) {
+    return <p className="text-center text-muted-foreground py-12">Loading your feed...</p>;
+  }
+
+  if (followingIds?.size === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center pt-12">
+          <Users className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold mb-2">Start following influencers</h3>
+          <p className="text-gray-600">Follow your favorite creators to see their latest posts and recommendations</p>
+        </div>
+        <FollowSuggestions />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-center text-muted-foreground py-12">Couldn't load your feed. Please try again.</p>;
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="space-y-6">
+        <NewPostsBanner count={newFollowedPosts.length} onReveal={reveal} />
+        <p className="text-center text-muted-foreground pt-12">
+          The creators you follow haven't posted yet. Find a few more to follow:
+        </p>
+        <FollowSuggestions />
+      </div>
+    );
+  }
+
+  // Where the posts seen last visit begin; there's no marker on a first visit
+  const firstSeenIndex = lastSeen ? posts.findIndex((post) => post.publish_at <= lastSeen) : -1;
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-4">Latest from your followed creators</h3>
+      <NewPostsBanner count={newFollowedPosts.length} onReveal={reveal} />
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {posts.map((post, index) => (
+          <Fragment key={post.id}>
+            {index === firstSeenIndex && <CaughtUpMarker />}
+            <ShopPostCard post={post} onClick={() => navigate(`/shop/post/${post.id}`)} />
+          </Fragment>
+        ))}
+      </div>
+      <InfiniteScrollLoader
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        onLoadMore={() => fetchNextPage()}
+        endMessage="You're all caught up on the creators you follow"
+      />
+    </div>
+  );
+};
+
+export default FollowingFeed;
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface InfiniteScrollLoaderProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+  // How far below the viewport the next page starts loading
+  rootMargin?: string;
+  endMessage?: string;
+}
+
+const InfiniteScrollLoader = ({
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  rootMargin = "400px",
+  endMessage,
+}: InfiniteScrollLoaderProps) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Keep the latest callback without re-creating the observer on every render
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, rootMargin]);
+
+  if (!hasNextPage) {
+    return endMessage ? (
+      <p className="text-center text-sm text-muted-foreground py-6">{endMessage}</p>
+    ) : null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-6">
+      {isFetchingNextPage ? (
+        <span className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading more...
+        </span>
+      ) : (
+        // Manual fallback in case the sentinel is already visible and never re-intersects
+        <Button variant="outline" size="sm" onClick={onLoadMore}>
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default InfiniteScrollLoader;
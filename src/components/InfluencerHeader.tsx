@@ -1,103 +1,75 @@
-
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Avatar } from "@/components/ui/avatar";
-import { Button } from "@/components/ui/button";
-import { UserPlus } from "lucide-react";
-import { useToast } from "@/components/ui/use-toast";
+import FollowButton from "./FollowButton";
+import FollowListDialog, { type FollowListKind } from "./FollowListDialog";
+import { useFollowCounts } from "@/hooks/useFollows";
+import type { UserProfile } from "@/lib/api";
 
 interface InfluencerHeaderProps {
-  influencer: {
-    id: number;
-    name: string;
-    category: string;
-    followers: string;
-    following: string;
-    image: string;
-    bio: string;
-  };
+  influencer: Pick<UserProfile, "id" | "name" | "avatar_url" | "category" | "bio">;
 }
 
+const formatCount = (count: number) =>
+  new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 }).format(count);
+
 const InfluencerHeader = ({ influencer }: InfluencerHeaderProps) => {
-  const [isFollowing, setIsFollowing] = useState(false);
-  const { toast } = useToast();
-  
-  useEffect(() => {
-    // Check if user is already following this influencer
-    const followedInfluencers = JSON.parse(localStorage.getItem("followedInfluencers") || "[]");
-    setIsFollowing(followedInfluencers.includes(influencer.id));
-  }, [influencer.id]);
+  const { data: counts } = useFollowCounts(influencer.id);
+  const [openList, setOpenList] = useState<FollowListKind | null>(null);
 
-  const handleFollowToggle = () => {
-    // Get current followed influencers
-    const followedInfluencers = JSON.parse(localStorage.getItem("followedInfluencers") || "[]");
-    
-    // Toggle follow status
-    if (isFollowing) {
-      // Unfollow
-      const updatedFollowed = followedInfluencers.filter((id: number) => id !== influencer.id);
-      localStorage.setItem("followedInfluencers", JSON.stringify(updatedFollowed));
-      setIsFollowing(false);
-      toast({
-        title: "Unfollowed",
-        description: `You have unfollowed ${influencer.name}.`,
-      });
-    } else {
-      // Follow
-      const updatedFollowed = [...followedInfluencers, influencer.id];
-      localStorage.setItem("followedInfluencers", JSON.stringify(updatedFollowed));
-      setIsFollowing(true);
-      toast({
-        title: "Following!",
-        description: `You are now following ${influencer.name}.`,
-      });
-    }
-  };
+  const stats: { kind: FollowListKind; label: string; count?: number }[] = [
+    { kind: "followers", label: "Followers", count: counts?.followers },
+    { kind: "following", label: "Following", count: counts?.following },
+  ];
 
   return (
     <div className="bg-gradient-to-b from-brand-50 to-white">
       <div className="container py-12 px-4">
         <div className="flex flex-col md:flex-row items-center md:items-start gap-8">
           <Avatar className="h-36 w-36 border-4 border-white shadow-lg">
-            <img 
-              src={influencer.image} 
+            <img
+              src={influencer.avatar_url || "/placeholder.svg"}
               alt={influencer.name}
               className="object-cover"
             />
           </Avatar>
-          
+
           <div className="flex-1 text-center md:text-left">
             <div className="flex flex-col md:flex-row md:items-center md:justify-between">
               <div>
                 <h1 className="text-3xl font-bold text-gray-800">{influencer.name}</h1>
-                <p className="text-lg text-gray-600 mt-1">{influencer.category}</p>
-                <p className="text-gray-700 mt-4 max-w-2xl">{influencer.bio}</p>
+                {influencer.category && <p className="text-lg text-gray-600 mt-1">{influencer.category}</p>}
+                {influencer.bio && <p className="text-gray-700 mt-4 max-w-2xl">{influencer.bio}</p>}
               </div>
-              
+
               <div className="mt-4 md:mt-0">
-                <Button
-                  onClick={handleFollowToggle}
-                  variant={isFollowing ? "outline" : "default"}
-                  className={isFollowing ? "border-brand-600 text-brand-600" : ""}
-                >
-                  <UserPlus className="mr-1 h-4 w-4" />
-                  {isFollowing ? "Following" : "Follow"}
-                </Button>
+                <FollowButton user={influencer} />
               </div>
             </div>
-            
+
             <div className="flex justify-center md:justify-start space-x-6 mt-6">
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-gray-800">{influencer.followers}</p>
-                <p className="text-sm text-gray-500">Followers</p>
-              </div>
-              <div className="text-center">
-                <p className="text-2xl font-semibold text-gray-800">{influencer.following}</p>
-                <p className="text-sm text-gray-500">Following</p>
-              </div>
+              {stats.map(({ kind, label, count }) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => setOpenList(kind)}
+                  className="text-center rounded-md px-2 -mx-2 hover:bg-brand-50"
+                >
+                  <p className="text-2xl font-semibold text-gray-800">
+                    {count === undefined ? "–" : formatCount(count)}
+                  </p>
+                  <p className="text-sm text-gray-500">{label}</p>
+                </button>
+              ))}
             </div>
           </div>
         </div>
       </div>
+      <FollowListDialog
+        user={influencer}
+        kind={openList ?? "followers"}
+        open={openList !== null}
+        onOpenChange={(open) => !open && setOpenList(null)}
+      />
     </div>
   );
 };
@@ -1,15 +1,66 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash2, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Edit, Trash2, ExternalLink, CloudOff, Send, EyeOff, Clock } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import { useMyPosts, useDeletePost } from "@/hooks/usePosts";
+import { useMyPosts, useDeletePost, useUpdatePost } from "@/hooks/usePosts";
+import { useOutbox } from "@/hooks/useOutbox";
+import InfiniteScrollLoader from "./InfiniteScrollLoader";
+import EditPostDialog from "./EditPostDialog";
+import PostCoverMedia from "./PostCoverMedia";
+import { formatPostPrice } from "@/lib/price";
+import { pendingPostId } from "@/lib/outbox";
+import { getPostStatus, getPublishError, publishTimeFor } from "@/lib/postDrafts";
+import type { NewPost, Post } from "@/lib/api";
+
+type ListedPost = NewPost & { id: string; created_at: string | null; isPending: boolean };
 
 const InfluencerPosts = () => {
-  const { data: postsData, isLoading } = useMyPosts();
+  const drafts = useMyPosts({ published: false });
+  const published = useMyPosts({ published: true });
   const deletePost = useDeletePost();
+  const updatePost = useUpdatePost();
   const { toast } = useToast();
+  const [editingPost, setEditingPost] = useState<Post | null>(null);
   
-  const posts = postsData?.posts || [];
+  const { data: outboxEntries = [] } = useOutbox();
+
+  // Posts created offline are shown first until they sync; queued deletes are dimmed
+  const pendingPosts = outboxEntries.flatMap((entry) =>
+    entry.kind === "post.create"
+      ? [{ ...entry.payload, id: pendingPostId(entry), created_at: entry.createdAt, isPending: true }]
+      : []
+  ).reverse();
+  const pendingDeleteIds = new Set(
+    outboxEntries.flatMap((entry) => (entry.kind === "post.delete" ? [entry.payload.postId] : []))
+  );
+  const withSyncedPosts = (pending: ListedPost[], query: typeof drafts): ListedPost[] => [
+    ...pending,
+    ...(query.data?.pages.flatMap((page) => page.posts) || []).map((post) => ({
+      ...post,
+      isPending: pendingDeleteIds.has(post.id),
+    })),
+  ];
+  const findSyncedPost = (postId: string) =>
+    [drafts, published]
+      .flatMap((query) => query.data?.pages.flatMap((page) => page.posts) || [])
+      .find((post) => post.id === postId) ?? null;
+  const draftPosts = withSyncedPosts(pendingPosts.filter((post) => post.is_published === false), drafts);
+  const publishedPosts = withSyncedPosts(pendingPosts.filter((post) => post.is_published !== false), published);
+
+  const handleTogglePublished = (post: ListedPost) => {
+    const publish = post.is_published === false;
+    const publishError = publish ? getPublishError(post) : undefined;
+    if (publishError) {
+      toast({ title: "This draft isn't ready to publish", description: publishError, variant: "destructive" });
+      return;
+    }
+    updatePost.mutate({
+      id: post.id,
+      // A draft published after its planned time goes live now, at the top of the feed
+      data: publish ? { is_published: true, publish_at: publishTimeFor(post) } : { is_published: false },
+    });
+  };
   
   const handleDeletePost = async (postId: string) => {
     try {
@@ -27,7 +78,7 @@ const InfluencerPosts = () => {
     });
   };
 
-  if (isLoading) {
+  if (drafts.isLoading || published.isLoading) {
     return (
       <div className="text-center py-12">
         <p className="text-gray-500">Loading your posts...</p>
@@ -35,7 +86,7 @@ const InfluencerPosts = () => {
     );
   }
   
-  if (posts.length === 0) {
+  if (draftPosts.length === 0 && publishedPosts.length === 0) {
     return (
       <div className="text-center py-12 border-2 border-dashed border-gray-200 rounded-lg">
         <p className="text-gray-500">You haven't created any posts yet.</p>
@@ -44,71 +95,134 @@ const InfluencerPosts = () => {
     );
   }
   
-  return (
-    <div className="space-y-6">
-      {posts.map((post) => (
-        <div key={post.id} className="border rounded-lg overflow-hidden shadow-sm">
-          <div className="flex flex-col md:flex-row">
-            <div className="w-full md:w-1/3 h-48 md:h-auto relative">
-              <img 
-                src={post.media_urls?.[0] || '/placeholder.svg'} 
-                alt={post.name}
-                className="h-full w-full object-cover"
-              />
-              {post.type === "video" && (
-                <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-30">
-                  <div className="rounded-full bg-white bg-opacity-80 p-2">
-                    <div className="h-6 w-6 text-gray-800">▶</div>
-                  </div>
-                </div>
+  const renderPost = (post: ListedPost) => (
+    <div
+      key={post.id}
+      className={`border rounded-lg overflow-hidden shadow-sm ${pendingDeleteIds.has(post.id) ? "opacity-50" : ""}`}
+    >
+      <div className="flex flex-col md:flex-row">
+        <div className="w-full md:w-1/3 h-48 md:h-auto relative">
+          <PostCoverMedia post={post} className="h-full w-full object-cover" />
+          <div className="absolute top-2 right-2 bg-white rounded-full py-1 px-2">
+            <span className="text-sm font-medium">{formatPostPrice(post)}</span>
+          </div>
+        </div>
+        
+        <div className="p-4 flex-1">
+          <div className="flex justify-between items-start">
+            <h3 className="font-medium text-lg">{post.name}</h3>
+            <span className="text-sm text-gray-500">{formatDate(post.created_at)}</span>
+          </div>
+
+          {!post.isPending && getPostStatus(post) === "scheduled" && (
+            <Badge variant="secondary" className="mt-2 gap-1">
+              <Clock className="h-3 w-3" />
+              Scheduled for {new Date(post.publish_at).toLocaleString()}
+            </Badge>
+          )}
+
+          {post.isPending && (
+            <Badge variant="secondary" className="mt-2 gap-1">
+              <CloudOff className="h-3 w-3" />
+              {pendingDeleteIds.has(post.id) ? "Deleting when back online" : "Waiting to sync"}
+            </Badge>
+          )}
+          
+          <p className="text-gray-600 mt-2 line-clamp-3">{post.description}</p>
+          
+          <div className="mt-4 flex flex-wrap gap-2">
+            <a 
+              href={post.product_link} 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-sm text-brand-600 hover:text-brand-700"
+            >
+              <ExternalLink className="h-4 w-4 mr-1" />
+              View Product Link
+            </a>
+          </div>
+          
+          <div className="mt-4 flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleTogglePublished(post)}
+              disabled={
+                post.isPending || (updatePost.isPending && updatePost.variables?.id === post.id)
+              }
+            >
+              {post.is_published === false ? (
+                <>
+                  <Send className="h-4 w-4 mr-1" />
+                  Publish
+                </>
+              ) : (
+                <>
+                  <EyeOff className="h-4 w-4 mr-1" />
+                  Unpublish
+                </>
               )}
-              <div className="absolute top-2 right-2 bg-white rounded-full py-1 px-2">
-                <span className="text-sm font-medium">{post.price}</span>
-              </div>
-            </div>
-            
-            <div className="p-4 flex-1">
-              <div className="flex justify-between items-start">
-                <h3 className="font-medium text-lg">{post.name}</h3>
-                <span className="text-sm text-gray-500">{formatDate(post.created_at)}</span>
-              </div>
-              
-              <p className="text-gray-600 mt-2 line-clamp-3">{post.description}</p>
-              
-              <div className="mt-4 flex flex-wrap gap-2">
-                <a 
-                  href={post.product_link} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center text-sm text-brand-600 hover:text-brand-700"
-                >
-                  <ExternalLink className="h-4 w-4 mr-1" />
-                  View Product Link
-                </a>
-              </div>
-              
-              <div className="mt-4 flex justify-end space-x-2">
-                <Button variant="outline" size="sm" disabled>
-                  <Edit className="h-4 w-4 mr-1" />
-                  Edit
-                </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  onClick={() => handleDeletePost(post.id)}
-                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
-                  disabled={deletePost.isPending}
-                >
-                  <Trash2 className="h-4 w-4 mr-1" />
-                  Delete
-                </Button>
-              </div>
-            </div>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEditingPost(findSyncedPost(post.id))}
+              disabled={post.isPending}
+            >
+              <Edit className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => handleDeletePost(post.id)}
+              className="text-red-500 hover:text-red-600 hover:bg-red-50"
+              disabled={deletePost.isPending || pendingDeleteIds.has(post.id)}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
           </div>
         </div>
-      ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      {draftPosts.length > 0 && (
+        <section className="space-y-6">
+          <h3 className="text-lg font-semibold">Drafts</h3>
+          {draftPosts.map(renderPost)}
+          <InfiniteScrollLoader
+            hasNextPage={drafts.hasNextPage}
+            isFetchingNextPage={drafts.isFetchingNextPage}
+            onLoadMore={() => drafts.fetchNextPage()}
+          />
+        </section>
+      )}
+      <section className="space-y-6">
+        {draftPosts.length > 0 && <h3 className="text-lg font-semibold">Published</h3>}
+        {publishedPosts.length === 0 ? (
+          <p className="text-gray-500">None of your posts are published yet.</p>
+        ) : (
+          publishedPosts.map(renderPost)
+        )}
+        <InfiniteScrollLoader
+          hasNextPage={published.hasNextPage}
+          isFetchingNextPage={published.isFetchingNextPage}
+          onLoadMore={() => published.fetchNextPage()}
+        />
+      </section>
+      {editingPost && (
+        <EditPostDialog
+          post={editingPost}
+          open={!!editingPost}
+          onOpenChange={(open) => !open && setEditingPost(null)}
+        />
+      )}
     </div>
   );
 };
 
-export default InfluencerPosts;
\ No newline at end of file
+export default InfluencerPosts;
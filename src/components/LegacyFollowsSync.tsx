@@ -0,0 +1,63 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { apiClient } from "@/lib/api";
+import { toApiError } from "@/lib/apiError";
+import { clearLegacyFollows, readLegacyFollows, resolveLegacyInfluencerId } from "@/lib/legacyFollows";
+
+/**
+ * Moves follows saved in this browser before they were stored in the database over to the
+ * signed-in account. The saved ids are kept until every one is carried over, so a failed
+ * attempt is retried on the next visit.
+ */
+const LegacyFollowsSync = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    const legacyIds = readLegacyFollows();
+    if (legacyIds.length === 0) return;
+    let cancelled = false;
+
+    const migrate = async () => {
+      const [{ users }, { userIds }] = await Promise.all([apiClient.getUsers(), apiClient.getFollowingIds()]);
+      const alreadyFollowed = new Set([...userIds, userId]);
+      // Ids whose influencer no longer exists resolve to nothing and are dropped
+      const targets = [...new Set(legacyIds.map((id) => resolveLegacyInfluencerId(id, users)))].filter(
+        (id): id is string => !!id && !alreadyFollowed.has(id)
+      );
+
+      for (const target of targets) {
+        if (cancelled) return;
+        try {
+          await apiClient.followUser(target);
+        } catch (error) {
+          // Followed since, or the account is gone: either way there's nothing to carry over
+          if (toApiError(error).kind !== "conflict") throw error;
+        }
+      }
+      if (cancelled) return;
+
+      clearLegacyFollows();
+      if (targets.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["follows"] });
+        queryClient.invalidateQueries({ queryKey: ["posts", "following"] });
+        toast.success(`Added ${targets.length} saved ${targets.length === 1 ? "follow" : "follows"} to your account`);
+      }
+    };
+
+    migrate().catch((error) => {
+      console.error("Failed to move saved follows to the account:", error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, queryClient]);
+
+  return null;
+};
+
+export default LegacyFollowsSync;
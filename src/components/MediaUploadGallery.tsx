@@ -1,41 +1,86 @@
 
-import React, { useRef } from "react";
-import { Upload } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { ImageIcon, RotateCw, Upload, X } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import VideoCoverPicker from "./VideoCoverPicker";
+import { useMediaUploads } from "@/hooks/useMediaUploads";
+import { apiClient } from "@/lib/api";
+import {
+  ACCEPTED_MEDIA_TYPES,
+  MAX_VIDEO_SECONDS,
+  isVideoMedia,
+  mediaFiles,
+  pickMediaMeta,
+  validateMediaFile,
+  type MediaMeta,
+  type MediaMetaMap,
+} from "@/lib/media";
 
 interface MediaUploadGalleryProps {
   value: string[] | undefined;
-  onChange: (urls: string[]) => void;
+  // Thumbnails and placeholders of uploaded images, keyed by URL
+  meta?: MediaMetaMap;
+  onChange: (urls: string[], meta: MediaMetaMap) => void;
   sampleMedia?: string[];
   maxFiles?: number;
+  // Lets the form hold off saving until every file has a stored URL
+  onUploadingChange?: (uploading: boolean) => void;
 }
 
-// Helper: is video by url?
-const isVideoUrl = (url: string) =>
-  /\.(mp4|webm|ogg)$/i.test(url) ||
-  (url.startsWith("blob:") && url.includes("video"));
-
 const MediaUploadGallery: React.FC<MediaUploadGalleryProps> = ({
   value = [],
+  meta = {},
   onChange,
   sampleMedia = [],
   maxFiles = 10,
+  onUploadingChange,
 }) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // Files uploaded since the form opened, stills included; no saved post refers to them
+  const sessionFiles = useRef(new Set<string>());
+  // The video whose cover frame is being picked
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+  // Uploads finish after the render that started them, so read the latest value and
+  // handler rather than the ones captured back then
+  const latest = useRef({ value, meta, onChange });
+  latest.current = { value, meta, onChange };
+
+  const { uploads, addFiles, cancel, retry } = useMediaUploads((url, uploadMeta) => {
+    mediaFiles([url], uploadMeta ? { [url]: uploadMeta } : {}).forEach((file) => sessionFiles.current.add(file));
+    const urls = [...latest.current.value, url];
+    const nextMeta = uploadMeta ? { ...latest.current.meta, [url]: uploadMeta } : latest.current.meta;
+    // Another upload may finish before the next render
+    latest.current.value = urls;
+    latest.current.meta = nextMeta;
+    latest.current.onChange(urls, nextMeta);
+  });
+
+  const uploading = uploads.some((upload) => upload.status !== "failed");
+  useEffect(() => {
+    onUploadingChange?.(uploading);
+  }, [uploading, onUploadingChange]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) return;
     const files = Array.from(e.target.files);
-    // Only allow up to maxFiles
-    const existingCount = value.length;
-    const allowedCount = Math.max(0, maxFiles - existingCount);
-    const selectedFiles = files.slice(0, allowedCount);
-
-    const urls = selectedFiles.map((file) => URL.createObjectURL(file));
-    // Add to existing value (for incremental uploads)
-    onChange([...value, ...urls]);
     // Reset input value so the same file can be selected again if desired
     e.target.value = "";
+
+    const validFiles = files.filter((file) => {
+      const invalid = validateMediaFile(file);
+      if (invalid) toast.error(invalid);
+      return !invalid;
+    });
+
+    // Only allow up to maxFiles, counting uploads still in progress
+    const allowedCount = Math.max(0, maxFiles - value.length - uploads.length);
+    if (validFiles.length > allowedCount) {
+      toast.error(`You can add up to ${maxFiles} images or videos`);
+    }
+    addFiles(validFiles.slice(0, allowedCount));
   };
 
   const handleUploadClick = () => {
@@ -45,17 +90,32 @@ const MediaUploadGallery: React.FC<MediaUploadGalleryProps> = ({
   const handleSampleClick = (url: string) => {
     // Avoid duplicates
     if (value.includes(url)) return;
-    if (value.length < maxFiles) {
-      onChange([...value, url]);
+    if (value.length + uploads.length < maxFiles) {
+      onChange([...value, url], meta);
     }
   };
 
   const handleRemove = (removeUrl: string) => {
-    // If blob, revoke object URL
-    if (removeUrl.startsWith("blob:")) {
-      URL.revokeObjectURL(removeUrl);
-    }
-    onChange(value.filter((url) => url !== removeUrl));
+    const urls = value.filter((url) => url !== removeUrl);
+    onChange(urls, pickMediaMeta(meta, urls));
+    // Saved posts keep their files until the edit is saved; fresh uploads can go now
+    deleteSessionFiles(mediaFiles([removeUrl], meta));
+  };
+
+  const deleteSessionFiles = (files: string[]) => {
+    const unused = files.filter((file) => sessionFiles.current.delete(file));
+    if (unused.length === 0) return;
+    apiClient.deleteMedia(unused).catch((error) => {
+      console.warn("Could not delete removed upload:", error);
+    });
+  };
+
+  const handleCoverPicked = (url: string, videoMeta: MediaMeta) => {
+    const { value: urls, meta: currentMeta } = latest.current;
+    const previousPoster = currentMeta[url]?.thumbnail_url;
+    sessionFiles.current.add(videoMeta.thumbnail_url);
+    latest.current.onChange(urls, { ...currentMeta, [url]: videoMeta });
+    if (previousPoster) deleteSessionFiles([previousPoster]);
   };
 
   return (
@@ -72,14 +132,14 @@ const MediaUploadGallery: React.FC<MediaUploadGalleryProps> = ({
         </Button>
         <input
           type="file"
-          accept="image/*,video/*"
+          accept={ACCEPTED_MEDIA_TYPES}
           multiple
           className="hidden"
           ref={fileInputRef}
           onChange={handleFileChange}
         />
         <span className="text-sm text-muted-foreground">
-          (Choose up to {maxFiles} images or videos, or pick a sample below)
+          (Choose up to {maxFiles} images up to 10 MB or videos up to 100 MB and {MAX_VIDEO_SECONDS} seconds, or pick a sample below)
         </span>
       </div>
       {sampleMedia.length > 0 && (
@@ -90,9 +150,9 @@ const MediaUploadGallery: React.FC<MediaUploadGalleryProps> = ({
               type="button"
               className="border rounded-md p-1 hover:border-brand-600 transition-colors"
               onClick={() => handleSampleClick(url)}
-              disabled={value.includes(url) || value.length >= maxFiles}
+              disabled={value.includes(url) || value.length + uploads.length >= maxFiles}
             >
-              {isVideoUrl(url) ? (
+              {isVideoMedia(url) ? (
                 <video
                   src={url}
                   className="h-10 w-10 object-cover"
@@ -111,19 +171,20 @@ const MediaUploadGallery: React.FC<MediaUploadGalleryProps> = ({
           ))}
         </div>
       )}
-      {value.length > 0 && (
+      {(value.length > 0 || uploads.length > 0) && (
         <div className="mt-2 flex flex-wrap gap-3">
           {value.map((url, idx) => (
-            <div className="relative w-32 h-32" key={idx}>
-              {isVideoUrl(url) ? (
+            <div className="relative w-32 h-32" key={url}>
+              {isVideoMedia(url, meta[url]) ? (
                 <video
                   src={url}
+                  poster={meta[url]?.thumbnail_url}
                   controls
                   className="object-cover w-full h-full border rounded"
                 />
               ) : (
                 <img
-                  src={url}
+                  src={meta[url]?.thumbnail_url ?? url}
                   alt={`Uploaded ${idx + 1}`}
                   className="object-cover w-full h-full border rounded"
                 />
@@ -136,10 +197,82 @@ const MediaUploadGallery: React.FC<MediaUploadGalleryProps> = ({
               >
                 ×
               </button>
+              {meta[url] && isVideoMedia(url, meta[url]) && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  className="absolute top-1 left-1 h-6 gap-1 px-2 text-xs"
+                  onClick={() => setCoverUrl(url)}
+                >
+                  <ImageIcon className="h-3 w-3" />
+                  Cover
+                </Button>
+              )}
+            </div>
+          ))}
+          {uploads.map((upload) => (
+            <div className="relative w-32 h-32" key={upload.id}>
+              {upload.file.type.startsWith("video/") ? (
+                <video
+                  src={upload.previewUrl}
+                  muted
+                  className="object-cover w-full h-full border rounded opacity-50"
+                />
+              ) : (
+                <img
+                  src={upload.previewUrl}
+                  alt={upload.file.name}
+                  className="object-cover w-full h-full border rounded opacity-50"
+                />
+              )}
+              <div className="absolute inset-x-1 bottom-1 space-y-1">
+                {upload.status === "failed" ? (
+                  <>
+                    <p className="truncate rounded bg-background/90 px-1 text-[10px] text-red-500" title={upload.error}>
+                      {upload.error}
+                    </p>
+                    {upload.retryable && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="secondary"
+                        className="h-6 w-full gap-1 text-xs"
+                        onClick={() => retry(upload.id)}
+                      >
+                        <RotateCw className="h-3 w-3" />
+                        Retry
+                      </Button>
+                    )}
+                  </>
+                ) : upload.status === "processing" ? (
+                  <p className="rounded bg-background/90 px-1 text-center text-[10px]">Optimizing...</p>
+                ) : (
+                  <Progress value={upload.progress * 100} className="h-1.5" />
+                )}
+              </div>
+              <button
+                className="absolute top-1 right-1 rounded-full bg-background/90 p-0.5 opacity-80 hover:opacity-100"
+                type="button"
+                title={upload.status === "failed" ? "Remove" : "Cancel upload"}
+                onClick={() => cancel(upload.id)}
+              >
+                <X className="h-3 w-3" />
+              </button>
             </div>
           ))}
         </div>
       )}
+      {coverUrl && meta[coverUrl] && (
+        <VideoCoverPicker
+          key={coverUrl}
+          url={coverUrl}
+          meta={meta[coverUrl]}
+          open
+          onOpenChange={(open) => !open && setCoverUrl(null)}
+          onPicked={(videoMeta) => handleCoverPicked(coverUrl, videoMeta)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import { useRef } from "react";
+import { ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface NewPostsBannerProps {
+  count: number;
+  onReveal: () => void;
+}
+
+/**
+ * Sticky prompt for posts that arrived while the feed was open; the feed only changes
+ * when it's clicked
+ */
+const NewPostsBanner = ({ count, onReveal }: NewPostsBannerProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  if (count === 0) return null;
+
+  const handleClick = () => {
+    onReveal();
+    ref.current?.parentElement?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  return (
+    <div ref={ref} className="sticky top-20 z-10 flex justify-center mb-4 pointer-events-none">
+      <Button size="sm" className="rounded-full shadow-lg pointer-events-auto" onClick={handleClick}>
+        <ArrowUp className="h-4 w-4 mr-1" />
+        {count === 1 ? "1 new post" : `${count} new posts`}
+      </Button>
+    </div>
+  );
+};
+
+export default NewPostsBanner;
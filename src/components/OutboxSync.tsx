@@ -0,0 +1,79 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { OUTBOX_QUERY_KEY } from "@/hooks/useOutbox";
+import { replayOutbox, subscribeToOutbox } from "@/lib/outbox";
+
+// Queries whose data the queued mutations change
+const AFFECTED_QUERY_KEYS = [["posts"], ["my-posts"], ["wishlist"], ["wishlist-ids"]];
+
+// How long to wait before replaying again when the server turned entries away for now
+const RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Replays the offline mutation outbox on load, on reconnect and whenever something is
+ * queued while online, then refreshes the affected queries. Entries held back by a server
+ * outage or an expired session are tried again a little later.
+ */
+const OutboxSync = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const syncingRef = useRef(false);
+  // Set when something is queued mid-replay, after the replay took its snapshot
+  const rerunRef = useRef(false);
+
+  useEffect(() => {
+    return subscribeToOutbox(() => {
+      queryClient.invalidateQueries({ queryKey: OUTBOX_QUERY_KEY });
+    });
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let retryTimer: number | undefined;
+    let stopped = false;
+
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      if (syncingRef.current) {
+        rerunRef.current = true;
+        return;
+      }
+      syncingRef.current = true;
+      rerunRef.current = false;
+      window.clearTimeout(retryTimer);
+      try {
+        const { synced, dropped, remaining } = await replayOutbox(userId);
+        if (remaining > 0 && navigator.onLine && !stopped) retryTimer = window.setTimeout(sync, RETRY_DELAY_MS);
+        if (synced.length === 0 && dropped.length === 0) return;
+
+        AFFECTED_QUERY_KEYS.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+        if (synced.length > 0) {
+          toast.success(`Synced ${synced.length} offline ${synced.length === 1 ? "change" : "changes"}`);
+        }
+        dropped.forEach(({ reason }) => toast.error(`An offline change couldn't be saved: ${reason}`));
+      } catch (error) {
+        console.error("Failed to replay offline changes:", error);
+      } finally {
+        syncingRef.current = false;
+        if (rerunRef.current) sync();
+      }
+    };
+
+    sync();
+    window.addEventListener("online", sync);
+    const unsubscribe = subscribeToOutbox(sync);
+    return () => {
+      stopped = true;
+      window.removeEventListener("online", sync);
+      window.clearTimeout(retryTimer);
+      unsubscribe();
+    };
+  }, [userId, queryClient]);
+
+  return null;
+};
+
+export default OutboxSync;
@@ -0,0 +1,225 @@
+import { createContext, useContext, useState } from "react";
+import type { DayContentProps } from "react-day-picker";
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isBefore,
+  isSameDay,
+  set,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useMyPostsInRange, useUpdatePost } from "@/hooks/usePosts";
+import { getPostStatus, type PostStatus } from "@/lib/postDrafts";
+import type { Post } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<PostStatus, string> = {
+  draft: "bg-muted text-muted-foreground border-dashed",
+  scheduled: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-950 dark:text-blue-200",
+  published: "bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-200",
+};
+
+const STATUS_LABELS: Record<PostStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Published",
+};
+
+// Chips shown in a day cell before collapsing the rest into "+N more"
+const MAX_CHIPS_PER_DAY = 2;
+
+const DRAG_TYPE = "application/x-influstyle-post";
+
+interface CalendarContextValue {
+  postsOn: (day: Date) => Post[];
+  canReschedule: (post: Post) => boolean;
+  reschedule: (postId: string, day: Date) => void;
+  isRescheduling: (postId: string) => boolean;
+  dropTarget: Date | null;
+  setDropTarget: (day: Date | null) => void;
+}
+
+// Lets the day cells, which react-day-picker renders, reach the calendar's state
+const CalendarContext = createContext<CalendarContextValue>(null);
+
+const CalendarDay = ({ date }: DayContentProps) => {
+  const { postsOn, canReschedule, reschedule, isRescheduling, dropTarget, setDropTarget } =
+    useContext(CalendarContext);
+  const dayPosts = postsOn(date);
+  const isPast = isBefore(date, startOfDay(new Date()));
+
+  return (
+    <div
+      className={cn(
+        "flex h-full w-full flex-col items-stretch gap-0.5 p-1 text-left",
+        dropTarget && isSameDay(dropTarget, date) && "rounded-md ring-2 ring-primary"
+      )}
+      onDragOver={(event) => {
+        if (isPast || !event.dataTransfer.types.includes(DRAG_TYPE)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+        if (!dropTarget || !isSameDay(dropTarget, date)) setDropTarget(date);
+      }}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setDropTarget(null);
+        reschedule(event.dataTransfer.getData(DRAG_TYPE), date);
+      }}
+    >
+      <span className="text-xs">{format(date, "d")}</span>
+      {dayPosts.slice(0, MAX_CHIPS_PER_DAY).map((post) => {
+        const status = getPostStatus(post);
+        const draggable = canReschedule(post);
+        return (
+          <span
+            key={post.id}
+            draggable={draggable}
+            onDragStart={(event) => {
+              event.dataTransfer.setData(DRAG_TYPE, post.id);
+              event.dataTransfer.effectAllowed = "move";
+            }}
+            title={
+              draggable
+                ? `${post.name} (${STATUS_LABELS[status]}, drag to reschedule)`
+                : `${post.name} (${STATUS_LABELS[status]})`
+            }
+            className={cn(
+              "hidden sm:block truncate rounded border px-1 text-[10px] leading-4",
+              STATUS_STYLES[status],
+              draggable && "cursor-grab active:cursor-grabbing",
+              isRescheduling(post.id) && "opacity-50"
+            )}
+          >
+            {post.name}
+          </span>
+        );
+      })}
+      {dayPosts.length > 0 && (
+        <span className="text-[10px] text-muted-foreground">
+          <span className="sm:hidden">{dayPosts.length}</span>
+          {dayPosts.length > MAX_CHIPS_PER_DAY && (
+            <span className="hidden sm:inline">+{dayPosts.length - MAX_CHIPS_PER_DAY} more</span>
+          )}
+        </span>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Month view of the signed-in influencer's posts by publish time. Drafts and scheduled
+ * posts can be dragged to another day to reschedule them, keeping their time of day.
+ */
+const PostCalendar = () => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => new Date());
+  const [dropTarget, setDropTarget] = useState<Date | null>(null);
+  const updatePost = useUpdatePost();
+
+  // The grid shows the leading and trailing days of the neighbouring months too
+  const rangeStart = startOfWeek(month);
+  const rangeEnd = addDays(endOfWeek(endOfMonth(month)), 1);
+  const { data, isLoading } = useMyPostsInRange(rangeStart, rangeEnd);
+  const posts = data?.posts || [];
+
+  const postsOn = (day: Date) =>
+    posts
+      .filter((post) => isSameDay(new Date(post.publish_at), day))
+      .sort((a, b) => a.publish_at.localeCompare(b.publish_at));
+
+  const canReschedule = (post: Post) => getPostStatus(post) !== "published";
+
+  const reschedule = (postId: string, day: Date) => {
+    const post = posts.find((candidate) => candidate.id === postId);
+    if (!post || !canReschedule(post)) return;
+
+    const current = new Date(post.publish_at);
+    if (isSameDay(current, day)) return;
+    const publishAt = set(day, {
+      hours: current.getHours(),
+      minutes: current.getMinutes(),
+      seconds: 0,
+      milliseconds: 0,
+    });
+    if (!isBefore(new Date(), publishAt)) {
+      toast.error("That time has already passed. Pick a later day.");
+      return;
+    }
+    updatePost.mutate({ id: post.id, data: { publish_at: publishAt.toISOString() } });
+  };
+
+  const selectedPosts = selectedDay ? postsOn(selectedDay) : [];
+
+  const isRescheduling = (postId: string) => updatePost.isPending && updatePost.variables?.id === postId;
+
+  return (
+    <CalendarContext.Provider
+      value={{ postsOn, canReschedule, reschedule, isRescheduling, dropTarget, setDropTarget }}
+    >
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(STATUS_LABELS) as PostStatus[]).map((status) => (
+            <span key={status} className={cn("rounded border px-2 py-0.5 text-xs", STATUS_STYLES[status])}>
+              {STATUS_LABELS[status]}
+            </span>
+          ))}
+        </div>
+
+        <Calendar
+          mode="single"
+          month={month}
+          onMonthChange={setMonth}
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          className={cn("rounded-md border p-3", isLoading && "opacity-60")}
+          classNames={{
+            months: "w-full",
+            month: "w-full space-y-4",
+            table: "w-full border-collapse",
+            head_row: "grid grid-cols-7",
+            head_cell: "text-muted-foreground font-normal text-[0.8rem]",
+            row: "grid grid-cols-7 mt-1",
+            cell: "h-16 sm:h-24 p-0.5 relative",
+            day: "h-full w-full rounded-md border border-transparent hover:bg-accent aria-selected:border-primary",
+            day_selected: "bg-accent/50",
+          }}
+          components={{ DayContent: CalendarDay }}
+        />
+
+        {selectedDay && (
+          <div className="space-y-2">
+            <h4 className="font-medium">{format(selectedDay, "EEEE, MMMM d")}</h4>
+            {selectedPosts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing planned for this day.</p>
+            ) : (
+              selectedPosts.map((post) => {
+                const status = getPostStatus(post);
+                return (
+                  <div key={post.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{post.name}</p>
+                      <p className="text-xs text-muted-foreground">{format(new Date(post.publish_at), "p")}</p>
+                    </div>
+                    <Badge variant="outline" className={STATUS_STYLES[status]}>
+                      {STATUS_LABELS[status]}
+                    </Badge>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+      </div>
+    </CalendarContext.Provider>
+  );
+};
+
+export default PostCalendar;
@@ -0,0 +1,60 @@
+import React, { useMemo, useState } from "react";
+import { decode } from "blurhash";
+import type { NewPost } from "@/lib/api";
+import { isVideoMedia, readMediaMeta } from "@/lib/media";
+import PostVideo from "./PostVideo";
+
+const PLACEHOLDER_SIZE = 32;
+
+// Blurhash decoded to a tiny image, stretched behind the real one while it loads
+const blurhashToDataUrl = (hash: string) => {
+  try {
+    const pixels = decode(hash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = PLACEHOLDER_SIZE;
+    const context = canvas.getContext("2d");
+    const imageData = context.createImageData(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    return undefined;
+  }
+};
+
+interface PostCoverMediaProps {
+  post: Pick<NewPost, "name" | "media_urls" | "media_meta">;
+  className?: string;
+  draggable?: boolean;
+}
+
+/**
+ * A post's first image or video, for cards. Images show their thumbnail when the upload has
+ * one and videos play muted while on screen, both over a blurred placeholder until they load.
+ */
+const PostCoverMedia: React.FC<PostCoverMediaProps> = ({ post, className, draggable }) => {
+  const url = post.media_urls?.[0];
+  const meta = url ? readMediaMeta(post.media_meta)[url] : undefined;
+  const placeholder = useMemo(() => (meta?.blurhash ? blurhashToDataUrl(meta.blurhash) : undefined), [meta?.blurhash]);
+  const [loaded, setLoaded] = useState(false);
+  const style: React.CSSProperties | undefined =
+    placeholder && !loaded ? { backgroundImage: `url(${placeholder})`, backgroundSize: "cover" } : undefined;
+
+  if (url && isVideoMedia(url, meta)) {
+    return <PostVideo src={url} poster={meta?.thumbnail_url} className={className} style={style} />;
+  }
+
+  return (
+    <img
+      src={meta?.thumbnail_url ?? url ?? "/placeholder.svg"}
+      alt={post.name}
+      className={className}
+      draggable={draggable}
+      loading="lazy"
+      onLoad={() => setLoaded(true)}
+      style={style}
+    />
+  );
+};
+
+export default PostCoverMedia;
@@ -0,0 +1,79 @@
+import React from "react";
+import { useInfluencers } from "@/hooks/useUsers";
+import { smallAvatarUrl } from "@/lib/avatar";
+import { POST_CATEGORIES, type PostFilters } from "@/lib/postFilters";
+import { cn } from "@/lib/utils";
+
+interface PostFilterChipsProps {
+  filters: PostFilters;
+  onChange: (filters: PostFilters) => void;
+}
+
+const Chip = ({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) => (
+  <button
+    type="button"
+    aria-pressed={active}
+    onClick={onClick}
+    className={cn(
+      "flex shrink-0 items-center gap-2 rounded-full border px-3 py-1 text-sm transition-colors",
+      active ? "border-brand-600 bg-brand-600 text-white" : "bg-background hover:border-brand-600"
+    )}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * One-tap category and influencer filters above a feed. Tapping the active chip again
+ * clears it.
+ */
+const PostFilterChips = ({ filters, onChange }: PostFilterChipsProps) => {
+  const { data: influencersData } = useInfluencers();
+  const influencers = influencersData?.users || [];
+
+  const toggle = (key: "category" | "influencer_id", value: string) =>
+    onChange({ ...filters, [key]: filters[key] === value ? undefined : value });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 overflow-x-auto pb-1" role="group" aria-label="Categories">
+        <Chip active={!filters.category} onClick={() => onChange({ ...filters, category: undefined })}>
+          All
+        </Chip>
+        {POST_CATEGORIES.map((category) => (
+          <Chip key={category} active={filters.category === category} onClick={() => toggle("category", category)}>
+            {category}
+          </Chip>
+        ))}
+      </div>
+      {influencers.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1" role="group" aria-label="Influencers">
+          {influencers.map((influencer) => (
+            <Chip
+              key={influencer.id}
+              active={filters.influencer_id === influencer.id}
+              onClick={() => toggle("influencer_id", influencer.id)}
+            >
+              <img
+                src={smallAvatarUrl(influencer.avatar_url) || "/placeholder.svg"}
+                alt=""
+                className="h-5 w-5 rounded-full object-cover"
+              />
+              {influencer.name}
+            </Chip>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostFilterChips;
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useInfluencers } from "@/hooks/useUsers";
+import { POST_CATEGORIES, countActiveFilters, type PostFilters, type PostMediaType } from "@/lib/postFilters";
+import {
+  BODY_TYPES,
+  BODY_TYPE_LABELS,
+  COLOR_SEASONS,
+  COLOR_SEASON_LABELS,
+  GENDER_FITS,
+  GENDER_FIT_LABELS,
+  OCCASIONS,
+  OCCASION_LABELS,
+  STYLE_TAGS,
+  STYLE_TAG_LABELS,
+} from "@/lib/styleAttributes";
+
+interface PostFilterSidebarProps {
+  filters: PostFilters;
+  onChange: (filters: PostFilters) => void;
+}
+
+// Radix Select items can't use an empty string value
+const ALL = "all";
+
+const STYLE_FILTERS: {
+  key: "body_type" | "style_tag" | "color_season" | "occasion" | "gender_fit";
+  label: string;
+  anyLabel: string;
+  values: readonly string[];
+  labels: Record<string, string>;
+}[] = [
+  { key: "body_type", label: "Body type", anyLabel: "Any body type", values: BODY_TYPES, labels: BODY_TYPE_LABELS },
+  { key: "style_tag", label: "Style", anyLabel: "Any style", values: STYLE_TAGS, labels: STYLE_TAG_LABELS },
+  {
+    key: "color_season",
+    label: "Color season",
+    anyLabel: "Any season",
+    values: COLOR_SEASONS,
+    labels: COLOR_SEASON_LABELS,
+  },
+  { key: "occasion", label: "Occasion", anyLabel: "Any occasion", values: OCCASIONS, labels: OCCASION_LABELS },
+  { key: "gender_fit", label: "Fit", anyLabel: "Any fit", values: GENDER_FITS, labels: GENDER_FIT_LABELS },
+];
+
+const toAmount = (value: string) => (value.trim() === "" ? undefined : Math.max(0, Number(value)));
+
+const PostFilterFields = ({ filters, onChange }: PostFilterSidebarProps) => {
+  const { data: influencersData } = useInfluencers();
+  const influencers = influencersData?.users || [];
+
+  // Price inputs are applied on blur so typing doesn't refetch on every keystroke
+  const [priceMin, setPriceMin] = useState(filters.price_min?.toString() ?? "");
+  const [priceMax, setPriceMax] = useState(filters.price_max?.toString() ?? "");
+
+  useEffect(() => {
+    setPriceMin(filters.price_min?.toString() ?? "");
+    setPriceMax(filters.price_max?.toString() ?? "");
+  }, [filters.price_min, filters.price_max]);
+
+  const update = (patch: Partial<PostFilters>) => onChange({ ...filters, ...patch });
+
+  const applyPrice = () => update({ price_min: toAmount(priceMin), price_max: toAmount(priceMax) });
+
+  const dateRange: DateRange | undefined = filters.date_from
+    ? { from: parseISO(filters.date_from), to: filters.date_to ? parseISO(filters.date_to) : undefined }
+    : undefined;
+
+  const handleDateChange = (range: DateRange | undefined) => {
+    update({
+      date_from: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+      date_to: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+    });
+  };
+
+  const dateLabel = dateRange?.from
+    ? `${format(dateRange.from, "MMM d, yyyy")}${dateRange.to ? ` – ${format(dateRange.to, "MMM d, yyyy")}` : ""}`
+    : "Any time";
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Category</Label>
+        <Select
+          value={filters.category || ALL}
+          onValueChange={(value) => update({ category: value === ALL ? undefined : value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="All categories" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {POST_CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category}>{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Price</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Min"
+            value={priceMin}
+            onChange={(e) => setPriceMin(e.target.value)}
+            onBlur={applyPrice}
+            onKeyDown={(e) => e.key === "Enter" && applyPrice()}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Max"
+            value={priceMax}
+            onChange={(e) => setPriceMax(e.target.value)}
+            onBlur={applyPrice}
+            onKeyDown={(e) => e.key === "Enter" && applyPrice()}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Media</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          className="justify-start"
+          value={filters.type || ALL}
+          onValueChange={(value) => update({ type: !value || value === ALL ? undefined : (value as PostMediaType) })}
+        >
+          <ToggleGroupItem value={ALL}>All</ToggleGroupItem>
+          <ToggleGroupItem value="image">Images</ToggleGroupItem>
+          <ToggleGroupItem value="video">Videos</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {STYLE_FILTERS.map(({ key, label, anyLabel, values, labels }) => (
+        <div key={key} className="space-y-2">
+          <Label>{label}</Label>
+          <Select
+            value={filters[key] || ALL}
+            // Values come from the list shown, so they're always valid for the key
+            onValueChange={(value) => update({ [key]: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder={anyLabel} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{anyLabel}</SelectItem>
+              {values.map((option) => (
+                <SelectItem key={option} value={option}>{labels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label>Influencer</Label>
+        <Select
+          value={filters.influencer_id || ALL}
+          onValueChange={(value) => update({ influencer_id: value === ALL ? undefined : value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="All influencers" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All influencers</SelectItem>
+            {influencers.map((influencer) => (
+              <SelectItem key={influencer.id} value={influencer.id}>{influencer.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Posted</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="w-full justify-start font-normal">
+              <CalendarIcon className="h-4 w-4 mr-2" />
+              {dateLabel}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={handleDateChange}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {countActiveFilters(filters) > 0 && (
+        <Button variant="ghost" className="w-full" onClick={() => onChange({})}>
+          Clear all filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Feed filters: a sticky sidebar on desktop and a slide-in drawer on mobile
+ */
+const PostFilterSidebar = ({ filters, onChange }: PostFilterSidebarProps) => {
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <>
+      <div className="md:hidden mb-4">
+        <Sheet>
+          <SheetTrigger asChild>
+            <Button variant="outline" className="flex items-center gap-2">
+              <SlidersHorizontal className="h-4 w-4" />
+              Filters
+              {activeCount > 0 && <Badge variant="secondary">{activeCount}</Badge>}
+            </Button>
+          </SheetTrigger>
+          <SheetContent side="left" className="overflow-y-auto">
+            <SheetHeader className="mb-6">
+              <SheetTitle>Filters</SheetTitle>
+            </SheetHeader>
+            <PostFilterFields filters={filters} onChange={onChange} />
+          </SheetContent>
+        </Sheet>
+      </div>
+
+      <aside className="hidden md:block w-64 shrink-0">
+        <div className="sticky top-24">
+          <h2 className="font-semibold text-lg mb-4 flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            Filters
+          </h2>
+          <PostFilterFields filters={filters} onChange={onChange} />
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default PostFilterSidebar;
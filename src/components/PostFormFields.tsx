@@ -0,0 +1,176 @@
+import React, { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import MediaUploadGallery from "./MediaUploadGallery";
+import PriceInput from "./PriceInput";
+import ProductTagEditor from "./ProductTagEditor";
+import StyleAttributeFields from "./StyleAttributeFields";
+import { POST_CATEGORIES } from "@/lib/postFilters";
+import { isVideoMedia } from "@/lib/media";
+import type { PostFormData } from "@/lib/postForm";
+
+const sampleMedia = [
+  "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?ixlib=rb-4.0.3&auto=format&fit=crop&w=500&q=80",
+  "https://images.unsplash.com/photo-1511499767150-a48a237f0083?ixlib=rb-4.0.3&auto=format&fit=crop&w=500&q=80",
+  "https://images.unsplash.com/photo-1608248543803-ba4f8c70ae0b?ixlib=rb-4.0.3&auto=format&fit=crop&w=500&q=80",
+  "https://images.unsplash.com/photo-1611741385334-864f40e100b8?ixlib=rb-4.0.3&auto=format&fit=crop&w=500&q=80",
+  "https://images.unsplash.com/photo-1558089687-f282ffcbc0d3?ixlib=rb-4.0.3&auto=format&fit=crop&w=500&q=80",
+];
+
+interface PostFormFieldsProps {
+  value: PostFormData;
+  onChange: (value: PostFormData) => void;
+  scheduleHint?: string;
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+/**
+ * The inputs for a post's content, shared by the new post form and the edit dialog
+ */
+const PostFormFields: React.FC<PostFormFieldsProps> = ({
+  value,
+  onChange,
+  scheduleHint = "Leave empty to publish right away. Scheduled posts stay hidden until this time.",
+  onUploadingChange,
+}) => {
+  // Both forms can be on the page at once, so input ids must be unique
+  const idPrefix = useId();
+  const update = (patch: Partial<PostFormData>) => onChange({ ...value, ...patch });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    update({ [e.target.name]: e.target.value });
+  };
+
+  return (
+    <>
+      <div>
+        <Label htmlFor={`${idPrefix}-name`}>Product Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          name="name"
+          value={value.name}
+          onChange={handleChange}
+          placeholder="Enter product name"
+          required
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Textarea
+          id={`${idPrefix}-description`}
+          name="description"
+          value={value.description}
+          onChange={handleChange}
+          placeholder="Describe the product..."
+          className="resize-none"
+          rows={3}
+          required
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-price`}>Price</Label>
+        <PriceInput id={`${idPrefix}-price`} value={value.price} onChange={(price) => update({ price })} />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-product_link`}>Product Link</Label>
+        <Input
+          id={`${idPrefix}-product_link`}
+          name="product_link"
+          placeholder="https://example.com/product"
+          type="url"
+          value={value.product_link}
+          onChange={handleChange}
+          required
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-category`}>Category</Label>
+        <Select value={value.category} onValueChange={(category) => update({ category })}>
+          <SelectTrigger id={`${idPrefix}-category`}>
+            <SelectValue placeholder="Select a category" />
+          </SelectTrigger>
+          <SelectContent>
+            {POST_CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category}>{category}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label>Style Tags</Label>
+        <p className="text-xs text-muted-foreground mb-2">
+          Who and what this look suits, so it reaches shoppers with matching profiles
+        </p>
+        <StyleAttributeFields idPrefix={idPrefix} value={value.style} onChange={(style) => update({ style })} />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-type`}>Content Type</Label>
+        <Select value={value.type} onValueChange={(type: "image" | "video") => update({ type })}>
+          <SelectTrigger id={`${idPrefix}-type`}>
+            <SelectValue placeholder="Select content type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="image">Image</SelectItem>
+            <SelectItem value="video">Video</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-publish_at`}>Schedule (optional)</Label>
+        <Input
+          id={`${idPrefix}-publish_at`}
+          name="publish_at"
+          type="datetime-local"
+          value={value.publish_at}
+          onChange={handleChange}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {scheduleHint}
+        </p>
+      </div>
+
+      <div>
+        <Label>Media</Label>
+        <MediaUploadGallery
+          value={value.media_urls}
+          meta={value.media_meta}
+          onChange={(media_urls, media_meta) =>
+            update({
+              media_urls,
+              media_meta,
+              // The cover decides how the post is listed
+              ...(media_urls.length > 0 && {
+                type: isVideoMedia(media_urls[0], media_meta[media_urls[0]]) ? "video" : "image",
+              }),
+            })
+          }
+          sampleMedia={sampleMedia}
+          maxFiles={10}
+          onUploadingChange={onUploadingChange}
+        />
+      </div>
+
+      <div>
+        <Label>Tagged Products</Label>
+        <ProductTagEditor
+          value={value.products}
+          onChange={(products) => update({ products })}
+          mediaUrls={value.media_urls}
+          mediaMeta={value.media_meta}
+          currency={value.price.currency}
+        />
+      </div>
+    </>
+  );
+};
+
+export default PostFormFields;
@@ -0,0 +1,81 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import type { Post } from "@/lib/api";
+
+interface PostMasonryGridProps {
+  posts: Post[];
+  renderPost: (post: Post) => React.ReactNode;
+}
+
+const GAP = 24;
+
+// Columns for the grid's own width, which the filter sidebar narrows
+const columnsFor = (width: number) => (width >= 720 ? 3 : width >= 440 ? 2 : 1);
+
+/**
+ * Posts in columns of uneven height, each card placed under the shortest column. Only the
+ * cards near the viewport are mounted, so long feeds stay quick to scroll.
+ */
+const PostMasonryGrid = ({ posts, renderPost }: PostMasonryGridProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [width, setWidth] = useState(0);
+  // Distance from the top of the page, which the window virtualizer measures scrolling from
+  const [offsetTop, setOffsetTop] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => {
+      const box = container.getBoundingClientRect();
+      setWidth(box.width);
+      setOffsetTop(box.top + window.scrollY);
+    };
+    // Banners and chips above the grid come and go, resizing the page but not the grid
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = columnsFor(width);
+  const columnWidth = (width - GAP * (columns - 1)) / columns;
+
+  const virtualizer = useWindowVirtualizer({
+    count: posts.length,
+    // Roughly a card with a landscape cover; each is measured once rendered
+    estimateSize: () => 380,
+    overscan: 6,
+    lanes: columns,
+    gap: GAP,
+    scrollMargin: offsetTop,
+    getItemKey: (index) => posts[index].id,
+  });
+
+  // Cards change height with the column width, and move lanes with the column count
+  useEffect(() => {
+    virtualizer.measure();
+  }, [columns, columnWidth, virtualizer]);
+
+  return (
+    <div ref={containerRef} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+      {width > 0 &&
+        virtualizer.getVirtualItems().map((item) => (
+          <div
+            key={item.key}
+            data-index={item.index}
+            ref={virtualizer.measureElement}
+            className="absolute top-0"
+            style={{
+              width: columnWidth,
+              left: item.lane * (columnWidth + GAP),
+              transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)`,
+            }}
+          >
+            {renderPost(posts[item.index])}
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default PostMasonryGrid;
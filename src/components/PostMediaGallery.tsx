@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import PostVideo from "./PostVideo";
+import ProductHotspots from "./ProductHotspots";
+import type { PostProduct } from "@/lib/api";
+import { isVideoMedia, type MediaMetaMap } from "@/lib/media";
+import { cn } from "@/lib/utils";
+
+interface PostMediaGalleryProps {
+  mediaUrls: string[];
+  mediaMeta: MediaMetaMap;
+  alt: string;
+  // Tagged products, pinned on the photos they were placed on
+  products?: PostProduct[];
+  activeProductId?: string | null;
+  onProductSelect?: (id: string) => void;
+}
+
+/**
+ * Every photo and video of a post in a swipeable carousel, with thumbnails to jump between
+ * them when there's more than one
+ */
+const PostMediaGallery: React.FC<PostMediaGalleryProps> = ({
+  mediaUrls,
+  mediaMeta,
+  alt,
+  products = [],
+  activeProductId,
+  onProductSelect,
+}) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setSelected(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  // Show the photo a product is pinned on when it's picked from the list
+  useEffect(() => {
+    const product = products.find((candidate) => candidate.id === activeProductId);
+    if (api && product) api.scrollTo(product.media_index);
+  }, [api, activeProductId, products]);
+
+  if (mediaUrls.length === 0) {
+    return <img src="/placeholder.svg" alt={alt} className="w-full rounded-lg shadow-lg" />;
+  }
+
+  return (
+    <div className="w-full space-y-3">
+      <Carousel setApi={setApi} className="w-full">
+        <CarouselContent>
+          {mediaUrls.map((url, index) => {
+            const meta = mediaMeta[url];
+            const pinned = products.filter((product) => product.media_index === index);
+            return (
+              <CarouselItem key={url} className="flex items-center justify-center">
+                {isVideoMedia(url, meta) ? (
+                  <div className="w-full max-h-[500px] overflow-hidden rounded-lg shadow-lg">
+                    <PostVideo
+                      src={url}
+                      poster={meta?.thumbnail_url}
+                      controls
+                      className="max-h-[500px] w-full object-contain bg-black"
+                    />
+                  </div>
+                ) : (
+                  // Sized to the photo itself, so hotspots land where they were placed
+                  <div className="relative inline-block">
+                    <img
+                      src={url}
+                      alt={mediaUrls.length > 1 ? `${alt} (${index + 1} of ${mediaUrls.length})` : alt}
+                      className="block rounded-lg shadow-lg max-h-[500px] w-auto max-w-full"
+                      draggable={false}
+                    />
+                    {onProductSelect && (
+                      <ProductHotspots
+                        hotspots={pinned.map((product) => ({
+                          id: product.id,
+                          title: product.title,
+                          x: product.position_x,
+                          y: product.position_y,
+                        }))}
+                        numbers={pinned.map((product) => products.indexOf(product) + 1)}
+                        activeId={activeProductId}
+                        onSelect={onProductSelect}
+                      />
+                    )}
+                  </div>
+                )}
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+        {mediaUrls.length > 1 && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </>
+        )}
+      </Carousel>
+      {mediaUrls.length > 1 && (
+        <div className="flex justify-center gap-2 overflow-x-auto">
+          {mediaUrls.map((url, index) => (
+            <button
+              key={url}
+              type="button"
+              aria-label={`Show item ${index + 1}`}
+              aria-current={index === selected}
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                "h-14 w-14 shrink-0 overflow-hidden rounded border-2",
+                index === selected ? "border-brand-600" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+            >
+              {isVideoMedia(url, mediaMeta[url]) && !mediaMeta[url]?.thumbnail_url ? (
+                <video src={url} muted className="h-full w-full object-cover" />
+              ) : (
+                <img src={mediaMeta[url]?.thumbnail_url ?? url} alt="" className="h-full w-full object-cover" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostMediaGallery;
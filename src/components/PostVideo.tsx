@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Volume2, VolumeX } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Share of the video that must be on screen before it starts playing
+const VISIBLE_THRESHOLD = 0.6;
+
+interface PostVideoProps {
+  src: string;
+  poster?: string;
+  className?: string;
+  style?: React.CSSProperties;
+  controls?: boolean;
+}
+
+/**
+ * A post's video, playing muted and looped while it's on screen. Without native controls it
+ * gets a sound toggle, which works inside clickable cards without triggering them.
+ */
+const PostVideo: React.FC<PostVideoProps> = ({ src, poster, className, style, controls = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [muted, setMuted] = useState(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    // Respect the reduced motion setting: play only when asked to
+    if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          // Browsers may still refuse, e.g. in power saving mode; the poster stays up then
+          video.play().catch(() => undefined);
+        } else {
+          video.pause();
+        }
+      },
+      { threshold: VISIBLE_THRESHOLD }
+    );
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, [src]);
+
+  const toggleMuted = (event: React.SyntheticEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setMuted((current) => !current);
+  };
+
+  return (
+    <div className="relative h-full w-full">
+      <video
+        ref={videoRef}
+        src={src}
+        poster={poster}
+        muted={muted}
+        loop
+        playsInline
+        preload="metadata"
+        controls={controls}
+        className={cn("h-full w-full", className)}
+        style={style}
+      />
+      {/* Not a <button>: cards that hold this are buttons themselves */}
+      {!controls && (
+        <span
+          role="button"
+          tabIndex={0}
+          aria-label={muted ? "Unmute video" : "Mute video"}
+          className="absolute bottom-2 left-2 rounded-full bg-black/60 p-1.5 text-white hover:bg-black/80"
+          onClick={toggleMuted}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === " ") toggleMuted(event);
+          }}
+        >
+          {muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default PostVideo;
@@ -0,0 +1,71 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SUPPORTED_CURRENCIES, type PriceDraft } from "@/lib/price";
+
+interface PriceInputProps {
+  id?: string;
+  value: PriceDraft;
+  onChange: (value: PriceDraft) => void;
+}
+
+const PriceInput: React.FC<PriceInputProps> = ({ id = "price", value, onChange }) => {
+  const update = (patch: Partial<PriceDraft>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select value={value.currency} onValueChange={(currency) => update({ currency })}>
+          <SelectTrigger className="w-24" aria-label="Currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUPPORTED_CURRENCIES.map((currency) => (
+              <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          placeholder={value.isRange ? "From" : "1999"}
+          value={value.min}
+          onChange={(e) => update({ min: e.target.value })}
+        />
+        {value.isRange && (
+          <>
+            <span className="text-muted-foreground">–</span>
+            <Input
+              id={`${id}-max`}
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.01"
+              placeholder="To"
+              aria-label="Maximum price"
+              value={value.max}
+              onChange={(e) => update({ max: e.target.value })}
+            />
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${id}-range`}
+          checked={value.isRange}
+          onCheckedChange={(isRange) => update({ isRange })}
+        />
+        <Label htmlFor={`${id}-range`} className="text-sm font-normal text-muted-foreground">
+          Price range (e.g. a collection or several sizes)
+        </Label>
+      </div>
+    </div>
+  );
+};
+
+export default PriceInput;
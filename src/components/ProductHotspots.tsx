@@ -0,0 +1,53 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+
+export interface ProductHotspot {
+  id: string;
+  title: string;
+  // Percent of the photo's width and height
+  x: number;
+  y: number;
+}
+
+interface ProductHotspotsProps {
+  hotspots: ProductHotspot[];
+  activeId?: string | null;
+  onSelect: (id: string) => void;
+  // Numbers shown on the pins, when they should match a list rather than start at 1
+  numbers?: number[];
+}
+
+/**
+ * Numbered pins over a photo, marking where each tagged product is. Place inside a
+ * relatively positioned box the exact size of the photo.
+ */
+const ProductHotspots: React.FC<ProductHotspotsProps> = ({ hotspots, activeId, onSelect, numbers }) => (
+  <>
+    {hotspots.map((hotspot, index) => {
+      const active = hotspot.id === activeId;
+      return (
+        <button
+          key={hotspot.id}
+          type="button"
+          aria-label={hotspot.title || `Product ${numbers?.[index] ?? index + 1}`}
+          aria-pressed={active}
+          title={hotspot.title}
+          style={{ left: `${hotspot.x}%`, top: `${hotspot.y}%` }}
+          className={cn(
+            "absolute flex h-7 w-7 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white text-xs font-semibold shadow-md transition-transform",
+            active ? "scale-125 bg-brand-600 text-white" : "bg-white/90 text-gray-900 hover:scale-110"
+          )}
+          onClick={(e) => {
+            // Clicks on the photo itself drop new pins in the tag editor
+            e.stopPropagation();
+            onSelect(hotspot.id);
+          }}
+        >
+          {numbers?.[index] ?? index + 1}
+        </button>
+      );
+    })}
+  </>
+);
+
+export default ProductHotspots;
@@ -3,12 +3,13 @@ import { Button } from "@/components/ui/button";
 import { Link } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import WishlistButton from "./WishlistButton";
+import { formatPrice } from "@/lib/price";
 
 const products = [
   {
     id: 1,
     name: "Wireless Noise-Cancelling Headphones",
-    price: "₹20,699",
+    price: { min: 20699, max: 20699, currency: "INR" },
     image: "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
     influencer: "Emma Johnson",
     influencerId: 1,
@@ -18,7 +19,7 @@ const products = [
   {
     id: 2,
     name: "Premium Yoga Mat",
-    price: "₹7,399",
+    price: { min: 7399, max: 7399, currency: "INR" },
     image: "https://images.unsplash.com/photo-1611741385334-864f40e100b8?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
     influencer: "Alex Rivera",
     influencerId: 2,
@@ -28,7 +29,7 @@ const products = [
   {
     id: 3,
     name: "Hydrating Facial Serum",
-    price: "₹4,819",
+    price: { min: 4819, max: 4819, currency: "INR" },
     image: "https://images.unsplash.com/photo-1608248543803-ba4f8c70ae0b?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1912&q=80",
     influencer: "Sarah Chen",
     influencerId: 3,
@@ -38,7 +39,7 @@ const products = [
   {
     id: 4,
     name: "Smart Home Assistant",
-    price: "₹10,719",
+    price: { min: 10719, max: 10719, currency: "INR" },
     image: "https://images.unsplash.com/photo-1558089687-f282ffcbc0d3?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1925&q=80",
     influencer: "Marcus Taylor",
     influencerId: 4,
@@ -48,7 +49,7 @@ const products = [
   {
     id: 5,
     name: "Sustainable Water Bottle",
-    price: "₹2,909",
+    price: { min: 2909, max: 2909, currency: "INR" },
     image: "https://images.unsplash.com/photo-1606767041004-6b387b91e360?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1887&q=80",
     influencer: "Alex Rivera",
     influencerId: 2,
@@ -58,7 +59,7 @@ const products = [
   {
     id: 6,
     name: "Designer Sunglasses",
-    price: "₹14,539",
+    price: { min: 14539, max: 14539, currency: "INR" },
     image: "https://images.unsplash.com/photo-1511499767150-a48a237f0083?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1780&q=80",
     influencer: "Emma Johnson",
     influencerId: 1,
@@ -132,7 +133,7 @@ const ProductShowcase = () => {
               </div>
               <div className="p-4">
                 <h3 className="font-medium text-gray-900">{product.name}</h3>
-                <p className="text-lg font-semibold text-brand-600 mt-1">{product.price}</p>
+                <p className="text-lg font-semibold text-brand-600 mt-1">{formatPrice(product.price)}</p>
                 <div className="mt-4 flex justify-between items-center">
                   <div className="flex items-center gap-2">
                     <Button size="sm" variant="outline" className="flex items-center">
@@ -0,0 +1,174 @@
+import React, { useId, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ProductHotspots from "./ProductHotspots";
+import { cn } from "@/lib/utils";
+import { isVideoMedia, type MediaMetaMap } from "@/lib/media";
+import type { ProductTagDraft } from "@/lib/postForm";
+
+interface ProductTagEditorProps {
+  value: ProductTagDraft[];
+  onChange: (value: ProductTagDraft[]) => void;
+  mediaUrls: string[];
+  mediaMeta: MediaMetaMap;
+  // Tags are priced in the post's currency
+  currency: string;
+}
+
+// Keep pins off the very edge, where they'd hang outside the photo
+const clampPercent = (value: number) => Math.round(Math.min(98, Math.max(2, value)) * 100) / 100;
+
+/**
+ * Tags the products worn in a post's photos: clicking a photo drops a numbered pin there,
+ * and each pin gets a name, link and optional price and image below
+ */
+const ProductTagEditor: React.FC<ProductTagEditorProps> = ({ value, onChange, mediaUrls, mediaMeta, currency }) => {
+  const idPrefix = useId();
+  const photos = mediaUrls.filter((url) => !isVideoMedia(url, mediaMeta[url]));
+  const [selectedPhoto, setSelectedPhoto] = useState<string | null>(null);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const photo = selectedPhoto && photos.includes(selectedPhoto) ? selectedPhoto : photos[0];
+
+  // Tags on removed photos are dropped when the post is saved, so don't list them
+  const tags = value.filter((tag) => photos.includes(tag.media_url));
+
+  if (!photo) {
+    return <p className="text-sm text-muted-foreground">Add a photo to tag the products in it.</p>;
+  }
+
+  const updateTag = (key: string, patch: Partial<ProductTagDraft>) =>
+    onChange(value.map((tag) => (tag.key === key ? { ...tag, ...patch } : tag)));
+
+  const removeTag = (key: string) => {
+    onChange(value.filter((tag) => tag.key !== key));
+    if (activeKey === key) setActiveKey(null);
+  };
+
+  const handlePhotoClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const tag: ProductTagDraft = {
+      key: crypto.randomUUID(),
+      title: "",
+      image_url: "",
+      link: "",
+      price: "",
+      media_url: photo,
+      position_x: clampPercent(((e.clientX - box.left) / box.width) * 100),
+      position_y: clampPercent(((e.clientY - box.top) / box.height) * 100),
+    };
+    onChange([...tags, tag]);
+    setActiveKey(tag.key);
+    // Let the new row render before moving to its name input
+    requestAnimationFrame(() => document.getElementById(`${idPrefix}-${tag.key}-title`)?.focus());
+  };
+
+  const photoTags = tags.filter((tag) => tag.media_url === photo);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">Click the photo where a product is to tag it.</p>
+      {photos.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map((url, index) => (
+            <button
+              key={url}
+              type="button"
+              className={cn(
+                "h-12 w-12 overflow-hidden rounded border-2",
+                url === photo ? "border-brand-600" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+              aria-label={`Tag photo ${index + 1}`}
+              aria-pressed={url === photo}
+              onClick={() => setSelectedPhoto(url)}
+            >
+              <img src={mediaMeta[url]?.thumbnail_url ?? url} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-center rounded-md bg-muted/40">
+        <div className="relative inline-block cursor-crosshair" onClick={handlePhotoClick}>
+          <img src={photo} alt="Photo to tag" className="block max-h-80 w-auto max-w-full select-none" draggable={false} />
+          <ProductHotspots
+            hotspots={photoTags.map((tag) => ({ id: tag.key, title: tag.title, x: tag.position_x, y: tag.position_y }))}
+            numbers={photoTags.map((tag) => tags.indexOf(tag) + 1)}
+            activeId={activeKey}
+            onSelect={setActiveKey}
+          />
+        </div>
+      </div>
+      {tags.length > 0 && (
+        <ol className="space-y-2">
+          {tags.map((tag, index) => (
+            <li
+              key={tag.key}
+              className={cn(
+                "grid grid-cols-[auto_1fr_auto] items-start gap-2 rounded-md border p-2",
+                tag.key === activeKey && "border-brand-600"
+              )}
+              onFocus={() => setActiveKey(tag.key)}
+            >
+              <button
+                type="button"
+                className="mt-2 flex h-6 w-6 items-center justify-center rounded-full bg-muted text-xs font-semibold"
+                title="Show on photo"
+                onClick={() => {
+                  setSelectedPhoto(tag.media_url);
+                  setActiveKey(tag.key);
+                }}
+              >
+                {index + 1}
+              </button>
+              <div className="grid gap-2 sm:grid-cols-2">
+                <Input
+                  id={`${idPrefix}-${tag.key}-title`}
+                  aria-label={`Product ${index + 1} name`}
+                  placeholder="Product name"
+                  value={tag.title}
+                  onChange={(e) => updateTag(tag.key, { title: e.target.value })}
+                />
+                <Input
+                  aria-label={`Product ${index + 1} link`}
+                  type="url"
+                  placeholder="https://example.com/product"
+                  value={tag.link}
+                  onChange={(e) => updateTag(tag.key, { link: e.target.value })}
+                />
+                <Input
+                  aria-label={`Product ${index + 1} price in ${currency}`}
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step="0.01"
+                  placeholder={`Price in ${currency} (optional)`}
+                  value={tag.price}
+                  onChange={(e) => updateTag(tag.key, { price: e.target.value })}
+                />
+                <Input
+                  aria-label={`Product ${index + 1} image URL`}
+                  type="url"
+                  placeholder="Image URL (optional)"
+                  value={tag.image_url}
+                  onChange={(e) => updateTag(tag.key, { image_url: e.target.value })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Remove tag"
+                onClick={() => removeTag(tag.key)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ProductTagEditor;
@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { smallAvatarUrl } from "@/lib/avatar";
 
 const ProfileButton = () => {
   const navigate = useNavigate();
@@ -36,7 +37,7 @@ const ProfileButton = () => {
       <DropdownMenuTrigger asChild>
         <Button variant="ghost" className="rounded-full p-0 h-10 w-10">
           <Avatar>
-            <AvatarImage src={user.avatar_url} alt={user.name || "User"} />
+            <AvatarImage src={smallAvatarUrl(user.avatar_url)} alt={user.name || "User"} />
             <AvatarFallback className="bg-brand-600 text-white">
               {getInitial()}
             </AvatarFallback>
@@ -0,0 +1,170 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { followCountsKey, followingIdsKey, type FollowingIds } from "@/hooks/useFollows";
+import { wishlistIdsKey, type WishlistIds } from "@/hooks/useWishlist";
+import { apiClient, type DataChange, type Post, type WishlistItem } from "@/lib/api";
+import { addNewPost, removeNewPost } from "@/lib/newPosts";
+import { findCachedPost, isPostCached, updateCachedPost } from "@/lib/postCache";
+
+// How recently a post must have gone live for an update to it to count as it being published
+const JUST_PUBLISHED_MS = 10 * 60 * 1000;
+
+// Supabase sends only the primary key in `old`, so a draft that was just published is told
+// apart by its row alone: live, and published moments ago. Wishlist counts and edits also
+// update older posts, which must not turn up as new.
+const wasJustPublished = (row: Post) => {
+  if (!row.is_published) return false;
+  const age = Date.now() - new Date(row.publish_at).getTime();
+  return age >= 0 && age < JUST_PUBLISHED_MS;
+};
+
+// Edits are only trusted to be new for this long when there's no cached copy to compare with
+const RECENT_EDIT_MS = 60 * 1000;
+
+// Every wishlist add or removal anywhere updates the post's count, leaving `updated_at` as it
+// was. Compared with the cached copy, or failing that by age, those are told apart from edits.
+const isCountOnlyUpdate = (queryClient: QueryClient, row: Post) => {
+  const cached = findCachedPost(queryClient, row.id);
+  if (cached) return cached.updated_at === row.updated_at;
+  return !!row.updated_at && Date.now() - new Date(row.updated_at).getTime() > RECENT_EDIT_MS;
+};
+
+const patchWishlistCount = (queryClient: QueryClient, row: Post) => {
+  const patch = (post: Post) => ({ ...post, wishlist_count: row.wishlist_count });
+  updateCachedPost(queryClient, ["posts"], row.id, patch);
+  updateCachedPost(queryClient, ["my-posts"], row.id, patch);
+  queryClient.setQueryData<{ post: Post }>(["post", row.id], (data) => (data ? { post: patch(data.post) } : data));
+};
+
+const removeCachedPost = (queryClient: QueryClient, postId: string) => {
+  updateCachedPost(queryClient, ["posts"], postId, () => null);
+  updateCachedPost(queryClient, ["my-posts"], postId, () => null);
+  removeNewPost(postId);
+  // An open details page refetches and finds the post gone
+  queryClient.invalidateQueries({ queryKey: ["post", postId] });
+};
+
+const applyPostChange = (queryClient: QueryClient, change: Extract<DataChange, { table: "posts" }>, userId?: string) => {
+  const row = change.new;
+  const postId = (row ?? change.old)?.id;
+  if (!postId) return;
+
+  // Only the memory backend sends unpublished posts to other users. Under Supabase, row level
+  // security drops the event, so other clients keep the post until their feeds refetch.
+  if (change.eventType === "DELETE" || (row && !row.is_published && row.author_id !== userId)) {
+    removeCachedPost(queryClient, postId);
+    return;
+  }
+
+  // The author's own feeds refresh outright, so their change shows up everywhere at once.
+  // Someone saving the post only changes its count, which is patched in place instead.
+  if (row.author_id === userId) {
+    if (change.eventType === "UPDATE" && isCountOnlyUpdate(queryClient, row)) {
+      patchWishlistCount(queryClient, row);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["my-posts"] });
+    queryClient.invalidateQueries({ queryKey: ["posts"] });
+    queryClient.invalidateQueries({ queryKey: ["post", postId] });
+    return;
+  }
+
+  // Someone else's post: hold new ones back behind the banner, patch the ones on screen
+  const becamePublished = change.eventType === "UPDATE" && wasJustPublished(row);
+  if (change.eventType === "INSERT" || (becamePublished && !isPostCached(queryClient, postId))) {
+    addNewPost(row);
+    return;
+  }
+  updateCachedPost(queryClient, ["posts"], postId, (post) => ({ ...post, ...row }));
+  queryClient.setQueryData<{ post: Post }>(["post", postId], (data) =>
+    data ? { post: { ...data.post, ...row } } : data
+  );
+};
+
+const applyWishlistChange = (
+  queryClient: QueryClient,
+  change: Extract<DataChange, { table: "wishlist_items" }>,
+  userId: string
+) => {
+  const idsKey = wishlistIdsKey(userId);
+  const wishlist = queryClient.getQueryData<{ wishlistItems: WishlistItem[] }>(["wishlist"]);
+
+  if (change.new) {
+    if (change.new.user_id !== userId) return;
+    const { id: itemId, post_id: postId } = change.new;
+    queryClient.setQueryData<WishlistIds>(idsKey, (data) =>
+      data
+        ? {
+            postIds: data.postIds.includes(postId) ? data.postIds : [...data.postIds, postId],
+            itemIds: { ...data.itemIds, [itemId]: postId },
+          }
+        : data
+    );
+  } else {
+    // Supabase only sends the primary key of deleted rows, and sends everyone's, so the item
+    // is looked up in the cache: the wishlist page if it's loaded, otherwise the cached ids.
+    // An item found in neither belongs to someone else.
+    const itemId = change.old?.id;
+    const cachedItem = wishlist?.wishlistItems.find((item) => item.id === itemId);
+    const item = { ...cachedItem, ...change.old };
+    if (item.user_id && item.user_id !== userId) return;
+    const postId = item.post_id ?? (itemId ? queryClient.getQueryData<WishlistIds>(idsKey)?.itemIds[itemId] : undefined);
+    if (!postId) return;
+    queryClient.setQueryData<WishlistIds>(idsKey, (data) =>
+      data ? { ...data, postIds: data.postIds.filter((id) => id !== postId) } : data
+    );
+  }
+  queryClient.invalidateQueries({ queryKey: ["wishlist"] });
+};
+
+const applyFollowChange = (
+  queryClient: QueryClient,
+  change: Extract<DataChange, { table: "follows" }>,
+  userId: string
+) => {
+  const follow = change.new ?? change.old;
+  if (!follow) return;
+
+  // Supabase only sends the primary key of deleted rows, so the user's own unfollows are
+  // matched against the follow ids cached with who they follow
+  const followIds = queryClient.getQueryData<FollowingIds>(followingIdsKey(userId))?.followIds;
+  if (follow.follower_id === userId || (change.eventType === "DELETE" && followIds?.includes(follow.id))) {
+    queryClient.invalidateQueries({ queryKey: ["follows"] });
+    queryClient.invalidateQueries({ queryKey: ["posts", "following"] });
+    return;
+  }
+
+  // Someone else following this user. Under Supabase their unfollows can't be told apart
+  // from anyone else's, so the follower count only catches up on its next refetch.
+  if (follow.following_id === userId) {
+    queryClient.invalidateQueries({ queryKey: followCountsKey(userId) });
+    queryClient.invalidateQueries({ queryKey: ["follows", "followers", userId] });
+  }
+};
+
+/**
+ * Keeps cached posts, wishlist and follows in step with changes made elsewhere: other
+ * users, other tabs and other devices
+ */
+const RealtimeSync = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    return apiClient.subscribeToChanges(userId ?? null, (change) => {
+      if (change.table === "posts") {
+        applyPostChange(queryClient, change, userId);
+      } else if (userId && change.table === "wishlist_items") {
+        applyWishlistChange(queryClient, change, userId);
+      } else if (userId && change.table === "follows") {
+        applyFollowChange(queryClient, change, userId);
+      }
+    });
+  }, [userId, queryClient]);
+
+  return null;
+};
+
+export default RealtimeSync;
@@ -1,49 +1,63 @@
-
 import React from "react";
+import type { Post } from "@/lib/api";
+import PostCoverMedia from "./PostCoverMedia";
+import WishlistButton from "./WishlistButton";
+import { smallAvatarUrl } from "@/lib/avatar";
+import { readMediaMeta } from "@/lib/media";
+import { formatPostPrice } from "@/lib/price";
 
 interface ShopPostCardProps {
-  post: {
-    id: number;
-    image: string;
-    influencer: {
-      name: string;
-      avatar: string;
-    };
-    caption: string;
-    category: string;
-  };
+  post: Post;
   onClick?: () => void;
 }
 
+// Covers keep their own shape in the masonry grid, within limits so no card towers over
+// the rest. Media without dimensions gets the old fixed landscape crop.
+const coverAspectRatio = (post: Post) => {
+  const url = post.media_urls?.[0];
+  const meta = url ? readMediaMeta(post.media_meta)[url] : undefined;
+  if (!meta?.width || !meta?.height) return 4 / 3;
+  return Math.min(3 / 2, Math.max(2 / 3, meta.width / meta.height));
+};
+
 const ShopPostCard: React.FC<ShopPostCardProps> = ({ post, onClick }) => (
-  <button
-    className="flex flex-col bg-card rounded-lg overflow-hidden shadow group hover:scale-105 transition-transform w-64 min-w-[16rem]"
-    onClick={onClick}
-    type="button"
-  >
-    <div className="relative h-48 w-full overflow-hidden">
-      <img
-        src={post.image}
-        alt={post.caption}
-        className="object-cover h-full w-full transition-transform group-hover:scale-105"
-        draggable={false}
-      />
-    </div>
-    <div className="flex items-center p-3 space-x-3">
-      <img
-        src={post.influencer.avatar}
-        alt={post.influencer.name}
-        className="w-8 h-8 rounded-full object-cover"
-      />
-      <div>
-        <p className="font-semibold text-foreground">{post.influencer.name}</p>
-        <p className="text-xs text-muted-foreground">{post.category}</p>
+  <div className="relative group hover:scale-105 transition-transform">
+    <button
+      className="flex flex-col bg-card rounded-lg overflow-hidden shadow w-full text-left"
+      onClick={onClick}
+      type="button"
+    >
+      <div className="relative w-full overflow-hidden" style={{ aspectRatio: coverAspectRatio(post) }}>
+        <PostCoverMedia
+          post={post}
+          className="object-cover h-full w-full transition-transform group-hover:scale-105"
+          draggable={false}
+        />
+        <div className="absolute top-2 right-2 bg-background/90 rounded-full py-1 px-2">
+          <span className="text-sm font-medium">{formatPostPrice(post)}</span>
+        </div>
       </div>
+      <div className="flex items-center p-3 space-x-3">
+        <img
+          src={smallAvatarUrl(post.users?.avatar_url) || "/placeholder.svg"}
+          alt={post.users?.name}
+          className="w-8 h-8 rounded-full object-cover"
+        />
+        <div>
+          <p className="font-semibold text-foreground">{post.users?.name}</p>
+          <p className="text-xs text-muted-foreground">{post.category || post.users?.category}</p>
+        </div>
+      </div>
+      <div className="px-3 pb-3">
+        <p className="text-sm font-medium text-foreground">{post.name}</p>
+        <p className="text-sm text-muted-foreground line-clamp-2">{post.description}</p>
+      </div>
+    </button>
+    {/* Outside the card's button, which can't contain another */}
+    <div className="absolute top-2 left-2 rounded-md bg-background/90">
+      <WishlistButton postId={post.id} variant="ghost" size="icon" />
     </div>
-    <div className="px-3 pb-3">
-      <p className="text-sm text-foreground line-clamp-2">{post.caption}</p>
-    </div>
-  </button>
+  </div>
 );
 
 export default ShopPostCard;
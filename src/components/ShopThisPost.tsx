@@ -1,18 +1,29 @@
-
-import React from "react";
+import React, { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
 
 interface ShopItem {
   id: string;
   title: string;
   image: string;
   link: string;
+  // Formatted for display
+  price?: string;
 }
 
 interface ShopThisPostProps {
   items: ShopItem[];
+  // The item whose hotspot was tapped on the photo
+  activeId?: string | null;
 }
 
-const ShopThisPost: React.FC<ShopThisPostProps> = ({ items }) => {
+const ShopThisPost: React.FC<ShopThisPostProps> = ({ items, activeId }) => {
+  const itemRefs = useRef(new Map<string, HTMLAnchorElement>());
+
+  useEffect(() => {
+    if (!activeId) return;
+    itemRefs.current.get(activeId)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [activeId]);
+
   if (!items || items.length === 0) {
     return (
       <div className="rounded border border-dashed p-6 text-muted-foreground text-center">
@@ -22,22 +33,38 @@ const ShopThisPost: React.FC<ShopThisPostProps> = ({ items }) => {
   }
   return (
     <div className="grid grid-cols-2 gap-3 md:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3">
-      {items.map((item) => (
+      {items.map((item, index) => (
         <a
           key={item.id}
+          ref={(element) => {
+            if (element) itemRefs.current.set(item.id, element);
+            else itemRefs.current.delete(item.id);
+          }}
           href={item.link}
           target="_blank"
           rel="noopener noreferrer"
-          className="flex flex-col bg-white border rounded-lg overflow-hidden shadow group hover:shadow-lg transition gap-1"
+          className={cn(
+            "relative flex flex-col bg-white border rounded-lg overflow-hidden shadow group hover:shadow-lg transition gap-1",
+            item.id === activeId && "ring-2 ring-brand-600 ring-offset-2"
+          )}
           title={item.title}
         >
-          <img
-            src={item.image}
-            alt={item.title}
-            className="w-full aspect-square object-cover"
-          />
+          {/* Matches the number on the item's hotspot */}
+          <span className="absolute left-1.5 top-1.5 flex h-6 w-6 items-center justify-center rounded-full bg-white/90 text-xs font-semibold shadow">
+            {index + 1}
+          </span>
+          {item.image ? (
+            <img
+              src={item.image}
+              alt={item.title}
+              className="w-full aspect-square object-cover"
+            />
+          ) : (
+            <div className="w-full aspect-square bg-muted" />
+          )}
           <div className="flex-1 flex flex-col justify-between py-2 px-2">
             <span className="text-sm font-medium text-center">{item.title}</span>
+            {item.price && <span className="text-xs text-muted-foreground text-center">{item.price}</span>}
             <button
               tabIndex={-1}
               className="self-center text-gray-400 hover:text-brand-600 transition text-xl mt-1"
@@ -0,0 +1,71 @@
+import React from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  GENDER_FITS,
+  GENDER_FIT_LABELS,
+  STYLE_ATTRIBUTE_LISTS,
+  readStyleAttributes,
+  type GenderFit,
+  type StyleAttributes,
+} from "@/lib/styleAttributes";
+
+interface StyleAttributeFieldsProps {
+  idPrefix: string;
+  value: StyleAttributes;
+  onChange: (value: StyleAttributes) => void;
+}
+
+// Radix Select items can't use an empty string value
+const UNSET = "unset";
+
+/**
+ * Who and what a post suits, picked from the same taxonomy shoppers fill in on their
+ * profile. Every attribute is optional and most take several values.
+ */
+const StyleAttributeFields: React.FC<StyleAttributeFieldsProps> = ({ idPrefix, value, onChange }) => (
+  <div className="space-y-4">
+    {STYLE_ATTRIBUTE_LISTS.map(({ key, label, values, labels }) => (
+      <div key={key} className="space-y-1">
+        <Label className="text-sm font-normal text-muted-foreground">{label}</Label>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={value[key]}
+          // Kept in taxonomy order however they're picked
+          onValueChange={(picked) => onChange(readStyleAttributes({ ...value, [key]: picked }))}
+        >
+          {values.map((option) => (
+            <ToggleGroupItem key={option} value={option}>
+              {labels[option]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    ))}
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-gender_fit`} className="text-sm font-normal text-muted-foreground">
+        Fit
+      </Label>
+      <Select
+        value={value.gender_fit ?? UNSET}
+        onValueChange={(fit) => onChange({ ...value, gender_fit: fit === UNSET ? null : (fit as GenderFit) })}
+      >
+        <SelectTrigger id={`${idPrefix}-gender_fit`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNSET}>Not specified</SelectItem>
+          {GENDER_FITS.map((fit) => (
+            <SelectItem key={fit} value={fit}>{GENDER_FIT_LABELS[fit]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+export default StyleAttributeFields;
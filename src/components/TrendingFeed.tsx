@@ -0,0 +1,116 @@
+import { Link, useNavigate } from "react-router-dom";
+import { TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import ShopPostCard from "./ShopPostCard";
+import { useTrending } from "@/hooks/useTrending";
+import { smallAvatarUrl } from "@/lib/avatar";
+import { formatTrendingChange } from "@/lib/trending";
+
+const ChangeLabel = ({ change }: { change: number | null }) => (
+  <span className={change !== null && change < 0 ? "text-gray-500" : "text-brand-600"}>
+    {formatTrendingChange(change)}
+  </span>
+);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * The posts, categories and creators gaining the most saves, views and follows this week
+ */
+const TrendingFeed = () => {
+  const navigate = useNavigate();
+  const { posts, categories, creators, isLoading, isError } = useTrending();
+
+  if (isLoading) {
+    return <p className="text-center text-muted-foreground py-12">Loading what's trending...</p>;
+  }
+
+  if (isError) {
+    return <p className="text-center text-muted-foreground py-12">Couldn't load trending posts. Please try again.</p>;
+  }
+
+  if (posts.length === 0 && categories.length === 0 && creators.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-12">
+        Nothing's trending yet. Check back once shoppers start saving posts.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-xl font-semibold mb-4 flex items-center">
+          <TrendingUp className="h-5 w-5 mr-2 text-brand-600" />
+          Trending Now
+        </h3>
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Categories This Week</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {categories.map((category) => (
+                  <div key={category.id} className="flex justify-between items-center">
+                    <span>{category.id}</span>
+                    <ChangeLabel change={category.change} />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rising Creators</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {creators.map(({ id, creator, change, counts }) => (
+                  <div key={id} className="flex justify-between items-center gap-3">
+                    <Link to={`/influencer/${id}`} className="flex items-center gap-3 min-w-0 hover:underline">
+                      <img
+                        src={smallAvatarUrl(creator.avatar_url) || "/placeholder.svg"}
+                        alt={creator.name}
+                        className="w-8 h-8 rounded-full object-cover"
+                      />
+                      <span className="truncate">{creator.name}</span>
+                    </Link>
+                    <span className="flex items-center gap-3 text-sm shrink-0">
+                      {counts.follow > 0 && (
+                        <span className="text-gray-600">+{plural(counts.follow, "follower")}</span>
+                      )}
+                      <ChangeLabel change={change} />
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {posts.length > 0 && (
+        <div>
+          <h3 className="text-xl font-semibold mb-4">Popular Posts</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {posts.map(({ post, change, counts }) => (
+              <div key={post.id} className="space-y-2">
+                <ShopPostCard post={post} onClick={() => navigate(`/shop/post/${post.id}`)} />
+                <div className="flex justify-between px-1 text-xs">
+                  <span className="text-gray-600">
+                    {plural(counts.wishlist, "save")} · {plural(counts.view, "view")} this week
+                  </span>
+                  <ChangeLabel change={change} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendingFeed;
@@ -8,6 +8,7 @@ import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { useImageSearch } from "@/hooks/useImageSearch";
 import WishlistButton from "./WishlistButton";
+import { formatPriceText } from "@/lib/price";
 
 interface UnifiedSearchBarProps {
   placeholder?: string;
@@ -261,7 +262,7 @@ const UnifiedSearchBar = ({
                         <div className="flex-1">
                           <h4 className="font-medium text-sm line-clamp-2">{result.title}</h4>
                           {result.price && (
-                            <p className="text-brand-600 font-semibold">{result.price}</p>
+                            <p className="text-brand-600 font-semibold">{formatPriceText(result.price)}</p>
                           )}
                           {result.influencer && (
                             <p className="text-xs text-gray-500">by {result.influencer}</p>
@@ -304,7 +305,7 @@ const UnifiedSearchBar = ({
                         <div className="flex-1">
                           <h4 className="font-medium text-sm line-clamp-2">{result.title}</h4>
                           {result.price && (
-                            <p className="text-green-600 font-semibold">{result.price}</p>
+                            <p className="text-green-600 font-semibold">{formatPriceText(result.price)}</p>
                           )}
                           {result.similarity && (
                             <Badge variant="secondary" className="text-xs mt-1">
@@ -338,7 +339,7 @@ const UnifiedSearchBar = ({
                       <div className="flex-1">
                         <h4 className="font-medium text-sm">{result.title}</h4>
                         {result.price && (
-                          <p className="text-brand-600 font-semibold">{result.price}</p>
+                          <p className="text-brand-600 font-semibold">{formatPriceText(result.price)}</p>
                         )}
                         {result.subtitle && (
                           <p className="text-sm text-gray-500">{result.subtitle}</p>
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Slider } from "@/components/ui/slider";
+import { apiClient } from "@/lib/api";
+import { getErrorMessage } from "@/lib/apiError";
+import type { MediaMeta } from "@/lib/media";
+import { captureFrame } from "@/lib/videoPipeline";
+
+interface VideoCoverPickerProps {
+  url: string;
+  meta: MediaMeta;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the video's meta pointing at the newly uploaded poster
+  onPicked: (meta: MediaMeta) => void;
+}
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+
+/**
+ * Scrub through an uploaded video and use the frame on screen as its cover
+ */
+const VideoCoverPicker: React.FC<VideoCoverPickerProps> = ({ url, meta, open, onOpenChange, onPicked }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [time, setTime] = useState(meta.poster_time ?? 0);
+  const [duration, setDuration] = useState(meta.duration ?? 0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSeek = ([seconds]: number[]) => {
+    setTime(seconds);
+    if (videoRef.current) videoRef.current.currentTime = seconds;
+  };
+
+  const handleUseFrame = async () => {
+    if (!videoRef.current) return;
+    setIsSaving(true);
+    try {
+      const frame = await captureFrame(videoRef.current, time, "cover");
+      const { url: posterUrl } = await apiClient.uploadMedia(frame.file);
+      onPicked({ ...meta, thumbnail_url: posterUrl, blurhash: frame.blurhash, poster_time: time });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Choose Cover Frame</DialogTitle>
+          <DialogDescription>Cards show this frame until the video starts playing.</DialogDescription>
+        </DialogHeader>
+        <video
+          ref={videoRef}
+          src={url}
+          // Frames of stored videos can only be captured when they're fetched with CORS
+          crossOrigin="anonymous"
+          muted
+          playsInline
+          preload="auto"
+          className="max-h-80 w-full rounded bg-black object-contain"
+          onLoadedMetadata={(event) => {
+            const video = event.currentTarget;
+            // Recordings without a length in their header report Infinity; the one found on upload stands
+            if (Number.isFinite(video.duration)) setDuration(video.duration);
+            video.currentTime = time;
+          }}
+        />
+        <div className="space-y-2">
+          <Slider
+            min={0}
+            max={duration || 1}
+            step={0.1}
+            value={[time]}
+            onValueChange={handleSeek}
+            disabled={!duration || isSaving}
+            aria-label="Cover frame time"
+          />
+          <p className="text-right text-xs text-muted-foreground">
+            {formatSeconds(time)} / {formatSeconds(duration)}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleUseFrame} disabled={!duration || isSaving}>
+            {isSaving ? "Saving Cover..." : "Use This Frame"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VideoCoverPicker;
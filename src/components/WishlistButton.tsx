@@ -1,7 +1,7 @@
-import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Heart } from "lucide-react";
-import { useAddToWishlist, useRemoveFromWishlist, useCheckWishlist } from "@/hooks/useWishlist";
+import { Heart, CloudOff } from "lucide-react";
+import { useAddToWishlist, useRemoveFromWishlist, useIsWishlisted } from "@/hooks/useWishlist";
+import { useIsWishlistPending } from "@/hooks/useOutbox";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
 
@@ -14,12 +14,11 @@ interface WishlistButtonProps {
 const WishlistButton = ({ postId, variant = "outline", size = "sm" }: WishlistButtonProps) => {
   const { isAuthenticated } = useAuth();
   const navigate = useNavigate();
-  const { data: wishlistCheck } = useCheckWishlist(postId);
+  const isWishlisted = useIsWishlisted(postId);
+  const isPending = useIsWishlistPending(postId);
   const addToWishlist = useAddToWishlist();
   const removeFromWishlist = useRemoveFromWishlist();
 
-  const isWishlisted = wishlistCheck?.isInWishlist || false;
-
   const handleToggleWishlist = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -43,11 +42,13 @@ const WishlistButton = ({ postId, variant = "outline", size = "sm" }: WishlistBu
       onClick={handleToggleWishlist}
       className="flex items-center gap-1"
       disabled={addToWishlist.isPending || removeFromWishlist.isPending}
+      title={isPending ? "Waiting to sync" : undefined}
     >
       <Heart 
         className={`h-4 w-4 ${isWishlisted ? 'fill-red-500 text-red-500' : 'text-gray-500'}`}
       />
       {size !== "icon" && (isWishlisted ? "Wishlisted" : "Wishlist")}
+      {isPending && <CloudOff className="h-3 w-3 text-muted-foreground" aria-label="Waiting to sync" />}
     </Button>
   );
 };
@@ -3,6 +3,9 @@ import { Heart, Trash2 } from "lucide-react";
 import { useWishlist, useRemoveFromWishlist } from "@/hooks/useWishlist";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { smallAvatarUrl } from "@/lib/avatar";
+import { formatPostPrice } from "@/lib/price";
+import PostCoverMedia from "./PostCoverMedia";
 
 const WishlistPage = () => {
   const { isAuthenticated } = useAuth();
@@ -76,11 +79,7 @@ const WishlistPage = () => {
         {wishlistItems.map((item) => (
           <div key={item.id} className="product-card group border border-border rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow bg-card">
             <div className="relative">
-              <img 
-                src={item.posts.media_urls?.[0] || '/placeholder.svg'} 
-                alt={item.posts.name}
-                className="h-64 w-full object-cover"
-              />
+              <PostCoverMedia post={item.posts} className="h-64 w-full object-cover" />
               {item.posts.users && (
                 <div 
                   className="absolute top-4 right-4 flex items-center space-x-1 bg-background/90 rounded-full py-1 px-3 cursor-pointer hover:bg-background"
@@ -88,7 +87,7 @@ const WishlistPage = () => {
                 >
                   {item.posts.users.avatar_url && (
                     <img 
-                      src={item.posts.users.avatar_url} 
+                      src={smallAvatarUrl(item.posts.users.avatar_url)} 
                       alt={item.posts.users.name}
                       className="h-5 w-5 rounded-full object-cover"
                     />
@@ -99,7 +98,7 @@ const WishlistPage = () => {
             </div>
             <div className="p-4">
               <h3 className="font-medium text-foreground">{item.posts.name}</h3>
-              <p className="text-lg font-semibold text-primary mt-1">{item.posts.price}</p>
+              <p className="text-lg font-semibold text-primary mt-1">{formatPostPrice(item.posts)}</p>
               {item.posts.users?.category && (
                 <span className="text-sm text-muted-foreground">{item.posts.users.category}</span>
               )}
@@ -1,25 +1,28 @@
 import React, { useState, useEffect, createContext, useContext, ReactNode, useRef } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { apiClient } from '@/lib/api';
+import { apiClient, type RegisterData, type UserProfile } from '@/lib/api';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { queryClient } from '@/lib/queryClient';
+import { clearPersistedQueries } from '@/lib/queryPersistence';
+import { ApiError, getErrorMessage, toApiError } from '@/lib/apiError';
 import { toast } from 'sonner';
 
-interface AuthUser {
-  id: string;
-  name: string;
-  email: string;
-  phone?: string;
-  gender: 'male' | 'female';
-  is_influencer: boolean;
-  avatar_url?: string;
-  body_type?: string;
-  style_preference?: string;
-  color_season?: string;
-  notes?: string;
-  bio?: string;
-  category?: string;
-  created_at: string;
-  updated_at: string;
-}
+type AuthUser = UserProfile;
+
+// Profile saved by the last session, so pages can render before the session check finishes
+const readCachedUser = (): AuthUser | null => {
+  try {
+    const cached = localStorage.getItem('auth_user');
+    return cached ? JSON.parse(cached) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Forget every cached query, in memory and persisted, so nothing leaks to the next user
+const clearCachedQueries = async () => {
+  queryClient.clear();
+  await clearPersistedQueries();
+};
 
 interface AuthContextType {
   user: AuthUser | null;
@@ -28,18 +31,10 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<boolean>;
   register: (data: RegisterData) => Promise<void>;
   logout: () => void;
-  updateUser: (data: Partial<AuthUser>) => Promise<void>;
+  updateUser: (data: TablesUpdate<'users'>) => Promise<void>;
   refreshUser: () => Promise<void>;
 }
 
-interface RegisterData {
-  name: string;
-  email: string;
-  password: string;
-  phone?: string;
-  gender: 'male' | 'female';
-}
-
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -52,8 +47,8 @@ export const useAuth = () => {
 };
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<AuthUser | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [user, setUser] = useState<AuthUser | null>(readCachedUser);
+  const [isLoading, setIsLoading] = useState(!user);
   const loginPromiseRef = useRef<Promise<boolean> | null>(null);
 
   const isAuthenticated = !!user;
@@ -62,17 +57,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const { data } = await supabase.auth.getSession();
-        const session = data?.session;
-        if (session?.access_token) {
-          await fetchUserProfile(session.access_token);
+        const userId = await apiClient.getSessionUserId();
+        if (userId) {
+          await fetchUserProfile(userId);
         } else {
-          if (!user) {
-            localStorage.removeItem('auth_user');
-            setUser(null);
-          }
+          localStorage.removeItem('auth_user');
+          setUser(null);
         }
       } catch (error) {
+        // A failed session check (e.g. a token refresh while offline) keeps the cached profile
         console.error('Auth check failed:', error);
       } finally {
         setIsLoading(false);
@@ -81,68 +74,33 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     checkAuth();
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
-      console.log('Auth state change:', event, !!session);
-      if (event === 'SIGNED_IN' && session?.access_token) {
-        await fetchUserProfile(session.access_token);
+    return apiClient.onAuthStateChange(async (event, userId) => {
+      console.log('Auth state change:', event, !!userId);
+      if ((event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED') && userId) {
+        await fetchUserProfile(userId);
       } else if (event === 'SIGNED_OUT') {
         localStorage.removeItem('auth_user');
         setUser(null);
         setIsLoading(false);
-      } else if (event === 'TOKEN_REFRESHED' && session?.access_token) {
-        await fetchUserProfile(session.access_token);
+        clearCachedQueries();
       }
     });
-    return () => subscription.unsubscribe();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const fetchUserProfile = async (token: string) => {
+  const fetchUserProfile = async (userId: string) => {
     try {
-      const userResponse = await supabase.auth.getUser(token);
-      const authUser = userResponse && userResponse.data && userResponse.data.user ? userResponse.data.user : null;
-      console.log('fetchUserProfile: authUser', authUser);
-      if (authUser) {
-        const { data: profile, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', authUser.id)
-          .single();
-        console.log('fetchUserProfile: profile', profile, 'error', error);
-        if (error || !profile) {
-          // If not found, create the user profile
-          const insertRes = await supabase
-            .from('users')
-            .insert({
-              id: authUser.id,
-              name: authUser.user_metadata?.name || authUser.email,
-              email: authUser.email,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              // add other default fields as needed
-            })
-            .select()
-            .single();
-          const newProfile = insertRes.data;
-          const insertError = insertRes.error;
-           if (insertError || !newProfile) {
-             console.warn('Failed to create user profile');
-             // do not clear existing user state here
-             return;
-           } else {
-             localStorage.setItem('auth_user', JSON.stringify(newProfile));
-             setUser(newProfile);
-           }
-        } else {
-          localStorage.setItem('auth_user', JSON.stringify(profile));
-          setUser(profile);
-        }
+      const { user: profile } = await apiClient.getUser(userId);
+      console.log('fetchUserProfile: profile', profile);
+      localStorage.setItem('auth_user', JSON.stringify(profile));
+      setUser(profile);
+    } catch (error) {
+      if (toApiError(error).kind === 'not-found') {
+        // Profiles are created by the backend during registration, since `users.password_hash`
+        // is required and never known to the browser; there is nothing to create here.
+        console.warn('No user profile found for authenticated user');
       } else {
-        console.warn('No Supabase user found during profile fetch');
-        // do not clear existing user state here
+        console.error('Failed to fetch user profile:', error);
       }
-    } catch (error) {
-      console.error('Failed to fetch user profile:', error);
       // do not clear existing user state here
     } finally {
       setIsLoading(false);
@@ -156,18 +114,6 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       // Use backend API for registration
       const response = await apiClient.register(data);
 
-      // Set the session in Supabase client if available
-      if (response.session) {
-        try {
-          const { error: sessionError } = await supabase.auth.setSession(response.session);
-          if (sessionError) {
-            console.warn('Session setting failed, but continuing with manual auth:', sessionError);
-          }
-        } catch (sessionError) {
-          console.warn('Session setting failed, but continuing with manual auth:', sessionError);
-        }
-      }
-
       // Set user profile regardless of session status
       if (response.user) {
         localStorage.setItem('auth_user', JSON.stringify(response.user));
@@ -177,7 +123,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       toast.success('Account created successfully!');
     } catch (error: unknown) {
       console.error('Registration error:', error);
-      const message = error instanceof Error ? error.message : 'Registration failed';
+      const message = getErrorMessage(error);
       toast.error(message);
       throw error;
     } finally {
@@ -207,12 +153,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           return false;
         }
 
-        // Best-effort: if Supabase session exists, refresh profile in background
+        // Best-effort: if a session exists, refresh profile in background
         try {
-          const { data: sessionData } = await supabase.auth.getSession();
-          const token = sessionData?.session?.access_token;
-          if (token) {
-            fetchUserProfile(token).catch((e) => console.warn('fetchUserProfile failed after login:', e));
+          const userId = await apiClient.getSessionUserId();
+          if (userId) {
+            fetchUserProfile(userId).catch((e) => console.warn('fetchUserProfile failed after login:', e));
           }
         } catch (e) {
           console.warn('getSession failed after login:', e);
@@ -222,7 +167,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         return true;
       } catch (error: unknown) {
         console.error('Login error:', error);
-        const message = error instanceof Error ? error.message : 'Login failed';
+        const message = getErrorMessage(error);
         toast.error(message);
         setUser(null);
         localStorage.removeItem('auth_user');
@@ -241,99 +186,46 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const logout = async () => {
     try {
       console.log('Logout: starting');
-      // Try to sign out from Supabase
-      let signOutResult = null;
       try {
-        signOutResult = await supabase.auth.signOut();
-        // Force clear Supabase session in-memory as well
-        await supabase.auth.setSession(null);
-        const maybeError = (signOutResult as { error?: unknown } | null)?.error;
-        if (maybeError) {
-          console.warn('Supabase logout failed:', maybeError);
-        } else {
-          console.log('Supabase signOut succeeded');
-        }
+        await apiClient.logout();
+        console.log('Backend logout succeeded');
       } catch (error) {
-        console.warn('Supabase logout threw error:', error);
+        console.warn('Backend logout threw error:', error);
       }
 
       // Clear all user-related state and storage
       localStorage.removeItem('auth_user');
       setUser(null);
-      // Remove all Supabase session keys from localStorage
-      Object.keys(localStorage).forEach((key) => {
-        if (key.startsWith('sb-')) localStorage.removeItem(key);
-      });
-      // Remove all Supabase session keys from sessionStorage
-      Object.keys(sessionStorage).forEach((key) => {
-        if (key.startsWith('sb-')) sessionStorage.removeItem(key);
-      });
       sessionStorage.clear();
-      console.log('Logout: cleared localStorage, sessionStorage, setUser(null)');
+      await clearCachedQueries();
+      console.log('Logout: cleared localStorage, sessionStorage, query cache, setUser(null)');
 
       toast.success('Logged out successfully');
-      // Force reload to ensure all state is reset and UI updates
-      setTimeout(async () => {
-        // Double clear after reload for extra safety
-        await supabase.auth.signOut();
-        await supabase.auth.setSession(null);
-        localStorage.removeItem('auth_user');
-        Object.keys(localStorage).forEach((key) => {
-          if (key.startsWith('sb-')) localStorage.removeItem(key);
-        });
-        Object.keys(sessionStorage).forEach((key) => {
-          if (key.startsWith('sb-')) sessionStorage.removeItem(key);
-        });
-        sessionStorage.clear();
-        window.location.reload();
-      }, 500);
     } catch (error) {
       console.error('Logout error:', error);
       // Still clear user state even if logout fails
       localStorage.removeItem('auth_user');
       setUser(null);
-      Object.keys(localStorage).forEach((key) => {
-        if (key.startsWith('sb-')) localStorage.removeItem(key);
-      });
-      Object.keys(sessionStorage).forEach((key) => {
-        if (key.startsWith('sb-')) sessionStorage.removeItem(key);
-      });
       sessionStorage.clear();
+      await clearCachedQueries();
       toast.success('Logged out');
-      setTimeout(async () => {
-        await supabase.auth.signOut();
-        await supabase.auth.setSession(null);
-        localStorage.removeItem('auth_user');
-        Object.keys(localStorage).forEach((key) => {
-          if (key.startsWith('sb-')) localStorage.removeItem(key);
-        });
-        Object.keys(sessionStorage).forEach((key) => {
-          if (key.startsWith('sb-')) sessionStorage.removeItem(key);
-        });
-        sessionStorage.clear();
-        window.location.reload();
-      }, 500);
     }
+
+    // Force reload to ensure all state is reset and UI updates
+    setTimeout(async () => {
+      // Double clear before reload for extra safety
+      await apiClient.logout().catch(() => undefined);
+      localStorage.removeItem('auth_user');
+      sessionStorage.clear();
+      window.location.reload();
+    }, 500);
   };
 
-  const updateUser = async (data: Partial<AuthUser>) => {
+  const updateUser = async (data: TablesUpdate<'users'>) => {
     try {
-      if (!user) throw new Error('No user logged in');
+      if (!user) throw new ApiError('auth', 'No user logged in');
 
-      const { data: updatedProfile, error } = await supabase
-        .from('users')
-        .update({
-          ...data,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', user.id)
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Update error:', error);
-        throw new Error('Failed to update profile');
-      }
+      const { user: updatedProfile } = await apiClient.updateUser(user.id, data);
 
       // Update localStorage with new user data
       localStorage.setItem('auth_user', JSON.stringify(updatedProfile));
@@ -341,7 +233,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       toast.success('Profile updated successfully!');
     } catch (error) {
       console.error('Update error:', error);
-      const message = error instanceof Error ? error.message : 'Update failed';
+      const message = getErrorMessage(error);
       toast.error(message);
       throw error;
     }
@@ -349,18 +241,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const refreshUser = async () => {
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.access_token) {
-        await fetchUserProfile(session.access_token);
+      const userId = await apiClient.getSessionUserId();
+      if (userId) {
+        await fetchUserProfile(userId);
       } else {
         // If no session but we have stored user, keep the stored user
-        const storedUser = localStorage.getItem('auth_user');
+        const storedUser = readCachedUser();
         if (storedUser && !user) {
-          try {
-            setUser(JSON.parse(storedUser));
-          } catch (e) {
-            localStorage.removeItem('auth_user');
-          }
+          setUser(storedUser);
         }
       }
     } catch (error) {
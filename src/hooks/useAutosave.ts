@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const AUTOSAVE_DELAY_MS = 3000;
+
+export const readAutosave = <T,>(key: string | null): T | null => {
+  if (!key) return null;
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Save `value` to localStorage a few seconds after it stops changing, so a refresh doesn't
+ * lose it. Nothing is kept while `isEmpty` is true.
+ */
+export const useAutosave = <T,>(key: string | null, value: T, isEmpty: boolean) => {
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+    if (isEmpty) {
+      localStorage.removeItem(key);
+      setSavedAt(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      try {
+        localStorage.setItem(key, JSON.stringify(value));
+        setSavedAt(new Date());
+      } catch (error) {
+        console.warn('Failed to autosave:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key, value, isEmpty]);
+
+  const clear = useCallback(() => {
+    if (key) localStorage.removeItem(key);
+    setSavedAt(null);
+  }, [key]);
+
+  return { savedAt, clear };
+};
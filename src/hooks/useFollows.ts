@@ -0,0 +1,119 @@
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type FollowCounts, type FollowCursor, type UserCard } from '@/lib/api';
+import { getErrorMessage, toApiError } from '@/lib/apiError';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+// Everything lives under ['follows'], which the user's own realtime follow changes invalidate as a whole
+export const followingIdsKey = (userId: string | undefined) => ['follows', 'ids', userId];
+export const followCountsKey = (userId: string) => ['follows', 'counts', userId];
+
+// `followIds` are the follow rows' own ids, which realtime deletes are matched against
+export type FollowingIds = { userIds: string[]; followIds: string[] };
+
+/**
+ * Ids of every user the current user follows, fetched once and shared by all follow buttons
+ */
+export const useFollowingIds = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: followingIdsKey(user?.id),
+    queryFn: () => apiClient.getFollowingIds(),
+    enabled: !!user,
+    select: (data) => new Set(data.userIds),
+  });
+};
+
+export const useFollowCounts = (userId: string | undefined) => {
+  return useQuery({
+    queryKey: followCountsKey(userId ?? ''),
+    queryFn: () => apiClient.getFollowCounts(userId ?? ''),
+    enabled: !!userId,
+  });
+};
+
+// The lists are only fetched while they're shown, e.g. when their dialog opens, and a page
+// at a time as they're scrolled
+export const useFollowers = (userId: string, options: { enabled?: boolean } = {}) => {
+  return useInfiniteQuery({
+    queryKey: ['follows', 'followers', userId],
+    queryFn: ({ pageParam }) => apiClient.getFollowers(userId, { cursor: pageParam }),
+    initialPageParam: null as FollowCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!userId && options.enabled !== false,
+  });
+};
+
+export const useFollowing = (userId: string, options: { enabled?: boolean } = {}) => {
+  return useInfiniteQuery({
+    queryKey: ['follows', 'following', userId],
+    queryFn: ({ pageParam }) => apiClient.getFollowing(userId, { cursor: pageParam }),
+    initialPageParam: null as FollowCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!userId && options.enabled !== false,
+  });
+};
+
+/**
+ * Whether the current user follows `target`, and a toggle that updates the button and the
+ * target's follower count before the server answers
+ */
+export const useFollow = (target: Pick<UserCard, 'id' | 'name'>) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { data: followingIds } = useFollowingIds();
+  const isFollowing = !!followingIds?.has(target.id);
+
+  const mutation = useMutation({
+    mutationFn: (follow: boolean) => (follow ? apiClient.followUser(target.id) : apiClient.unfollowUser(target.id)),
+    onMutate: async (follow) => {
+      const idsKey = followingIdsKey(user?.id);
+      const countsKey = followCountsKey(target.id);
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: idsKey }),
+        queryClient.cancelQueries({ queryKey: countsKey }),
+      ]);
+      const previousIds = queryClient.getQueryData<FollowingIds>(idsKey);
+      const previousCounts = queryClient.getQueryData<FollowCounts>(countsKey);
+
+      const userIds = (previousIds?.userIds || []).filter((id) => id !== target.id);
+      queryClient.setQueryData<FollowingIds>(idsKey, {
+        userIds: follow ? [...userIds, target.id] : userIds,
+        followIds: previousIds?.followIds || [],
+      });
+      if (previousCounts) {
+        queryClient.setQueryData<FollowCounts>(countsKey, {
+          ...previousCounts,
+          followers: Math.max(0, previousCounts.followers + (follow ? 1 : -1)),
+        });
+      }
+      return { previousIds, previousCounts };
+    },
+    onSuccess: (_result, follow) => {
+      toast.success(follow ? `You're now following ${target.name}` : `Unfollowed ${target.name}`);
+    },
+    onError: (error, follow, context) => {
+      const { kind, code } = toApiError(error);
+      // Already followed (e.g. from another tab), so the optimistic state is right
+      if (follow && kind === 'conflict' && code === '23505') return;
+      queryClient.setQueryData(followingIdsKey(user?.id), context?.previousIds);
+      queryClient.setQueryData(followCountsKey(target.id), context?.previousCounts);
+      toast.error(
+        kind === 'conflict'
+          ? 'This account is no longer available'
+          : `Failed to ${follow ? 'follow' : 'unfollow'} ${target.name}. ${getErrorMessage(error)}`
+      );
+    },
+    // Both users' counts and lists have changed, and so has the following feed
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['follows'] });
+      queryClient.invalidateQueries({ queryKey: ['posts', 'following'] });
+    },
+  });
+
+  return {
+    isFollowing,
+    toggle: () => mutation.mutate(!isFollowing),
+    isPending: mutation.isPending,
+  };
+};
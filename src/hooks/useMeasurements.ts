@@ -0,0 +1,32 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type MeasurementsInput } from '@/lib/api';
+import { getErrorMessage } from '@/lib/apiError';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export const measurementsKey = (userId: string | undefined) => ['measurements', userId];
+
+export const useMeasurements = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: measurementsKey(user?.id),
+    queryFn: () => apiClient.getMyMeasurements(),
+    enabled: !!user,
+  });
+};
+
+export const useSaveMeasurements = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (measurements: MeasurementsInput) => apiClient.saveMyMeasurements(measurements),
+    onSuccess: (result) => {
+      queryClient.setQueryData(measurementsKey(user?.id), result);
+      toast.success('Measurements updated successfully!');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save measurements. ${getErrorMessage(error)}`);
+    },
+  });
+};
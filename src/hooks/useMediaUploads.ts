@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from 'react';
+import { apiClient } from '@/lib/api';
+import { getErrorMessage, isApiError } from '@/lib/apiError';
+import { canProcessImage, processImage } from '@/lib/imagePipeline';
+import { mediaFiles, VIDEO_TYPES, type MediaMeta } from '@/lib/media';
+import { processVideo } from '@/lib/videoPipeline';
+
+export interface MediaUpload {
+  id: string;
+  file: File;
+  // Object URL for showing the file before it's stored
+  previewUrl: string;
+  // Fraction sent so far, from 0 to 1
+  progress: number;
+  // Images and videos are prepared in the browser before anything is sent
+  status: 'processing' | 'uploading' | 'failed';
+  error?: string;
+  // False when the same file would fail the same way again, e.g. a video that's too long
+  retryable?: boolean;
+}
+
+// The thumbnail or poster is a small share of the bytes sent
+const MAIN_FILE_SHARE = 0.9;
+
+interface PreparedUpload {
+  file: File;
+  still: File;
+  meta: Omit<MediaMeta, 'thumbnail_url'>;
+}
+
+// Re-encoded photos and untouched videos, each with its still; null for files sent as is
+const prepareFile = async (file: File): Promise<PreparedUpload | null> => {
+  if (VIDEO_TYPES.includes(file.type)) {
+    const video = await processVideo(file);
+    return {
+      file,
+      still: video.poster,
+      meta: {
+        content_type: file.type,
+        blurhash: video.blurhash,
+        width: video.width,
+        height: video.height,
+        duration: video.duration,
+        poster_time: video.poster_time,
+      },
+    };
+  }
+  if (canProcessImage(file)) {
+    const image = await processImage(file);
+    return {
+      file: image.file,
+      still: image.thumbnail,
+      meta: { content_type: image.file.type, blurhash: image.blurhash, width: image.width, height: image.height },
+    };
+  }
+  return null;
+};
+
+const uploadFile = async (
+  file: File,
+  signal: AbortSignal,
+  onProgress: (progress: number) => void,
+  onPrepared: () => void
+): Promise<{ url: string; meta?: MediaMeta }> => {
+  const prepared = await prepareFile(file);
+  if (signal.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+  onPrepared();
+  if (!prepared) return apiClient.uploadMedia(file, { signal, onProgress });
+
+  const { url } = await apiClient.uploadMedia(prepared.file, {
+    signal,
+    onProgress: (progress) => onProgress(progress * MAIN_FILE_SHARE),
+  });
+  try {
+    const { url: thumbnailUrl } = await apiClient.uploadMedia(prepared.still, {
+      signal,
+      onProgress: (progress) => onProgress(MAIN_FILE_SHARE + progress * (1 - MAIN_FILE_SHARE)),
+    });
+    return { url, meta: { ...prepared.meta, thumbnail_url: thumbnailUrl } };
+  } catch (error) {
+    // Don't leave the full-size file behind without its still
+    apiClient.deleteMedia([url]).catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * Uploads picked files to storage one request each, with progress, cancel and retry.
+ * Photos and videos go through their pipelines first. Finished uploads leave the list and
+ * are handed to `onUploaded` with their stored URL and, when prepared, their stills.
+ */
+export const useMediaUploads = (onUploaded: (url: string, meta?: MediaMeta) => void) => {
+  const [uploads, setUploads] = useState<MediaUpload[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const previews = useRef(new Map<string, string>());
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const patch = (id: string, changes: Partial<MediaUpload>) =>
+    setUploads((current) => current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+
+  const discard = (id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+    const previewUrl = previews.current.get(id);
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    previews.current.delete(id);
+    setUploads((current) => current.filter((upload) => upload.id !== id));
+  };
+
+  const start = (id: string, file: File) => {
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+
+    uploadFile(
+      file,
+      controller.signal,
+      (progress) => patch(id, { progress }),
+      () => patch(id, { status: 'uploading' })
+    )
+      .then(({ url, meta }) => {
+        // Cancelled just as it finished
+        if (controller.signal.aborted) {
+          apiClient.deleteMedia(mediaFiles([url], meta ? { [url]: meta } : {})).catch(() => undefined);
+          return;
+        }
+        discard(id);
+        onUploadedRef.current(url, meta);
+      })
+      .catch((error) => {
+        // Cancelled uploads have already left the list
+        if (controller.signal.aborted) return;
+        controllers.current.delete(id);
+        // Only failures on the way to storage are worth another attempt
+        patch(id, {
+          status: 'failed',
+          error: getErrorMessage(error),
+          retryable: isApiError(error) ? error.isTransient || error.kind === 'auth' : false,
+        });
+      });
+  };
+
+  const addFiles = (files: File[]) => {
+    const added = files.map((file) => {
+      const id = crypto.randomUUID();
+      const previewUrl = URL.createObjectURL(file);
+      previews.current.set(id, previewUrl);
+      return { id, file, previewUrl, progress: 0, status: 'processing' as const };
+    });
+    setUploads((current) => [...current, ...added]);
+    added.forEach(({ id, file }) => start(id, file));
+  };
+
+  const retry = (id: string) => {
+    const upload = uploads.find((candidate) => candidate.id === id);
+    if (!upload || upload.status !== 'failed' || !upload.retryable) return;
+    patch(id, { status: 'processing', progress: 0, error: undefined, retryable: undefined });
+    start(id, upload.file);
+  };
+
+  // Leaving the form stops whatever is still being sent
+  useEffect(() => {
+    const activeControllers = controllers.current;
+    const activePreviews = previews.current;
+    return () => {
+      activeControllers.forEach((controller) => controller.abort());
+      activePreviews.forEach((previewUrl) => URL.revokeObjectURL(previewUrl));
+    };
+  }, []);
+
+  return { uploads, addFiles, cancel: discard, retry };
+};
@@ -0,0 +1,26 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { clearNewPosts, getNewPosts, subscribeToNewPosts } from '@/lib/newPosts';
+import { matchesPostFilters, type PostFilters } from '@/lib/postFilters';
+
+/**
+ * Posts matching the filters that arrived since the feed was loaded, and a callback that
+ * refreshes the feeds to show them
+ */
+export const useNewPosts = (filters: PostFilters, loadedPostIds: Set<string>) => {
+  const queryClient = useQueryClient();
+  const newPosts = useSyncExternalStore(subscribeToNewPosts, getNewPosts);
+
+  const matching = useMemo(
+    () => newPosts.filter((post) => !loadedPostIds.has(post.id) && matchesPostFilters(post, filters)),
+    [newPosts, loadedPostIds, filters]
+  );
+
+  const reveal = useCallback(async () => {
+    // Every feed refetches, so posts held back for other filters are shown too
+    clearNewPosts();
+    await queryClient.invalidateQueries({ queryKey: ['posts'] });
+  }, [queryClient]);
+
+  return { newPosts: matching, reveal };
+};
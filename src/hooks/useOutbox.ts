@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { getOutboxEntries } from '@/lib/outbox';
+import { useAuth } from '@/hooks/useAuth';
+
+export const OUTBOX_QUERY_KEY = ['outbox'];
+
+/**
+ * Mutations the current user made offline that haven't reached the server yet
+ */
+export const useOutbox = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: [...OUTBOX_QUERY_KEY, user?.id],
+    queryFn: getOutboxEntries,
+    enabled: !!user,
+    // The outbox is local, so it can be read without a connection
+    networkMode: 'always',
+    select: (entries) => entries.filter((entry) => entry.userId === user?.id),
+  });
+};
+
+export const useIsWishlistPending = (postId: string) => {
+  const { data: entries } = useOutbox();
+  return !!entries?.some(
+    (entry) => (entry.kind === 'wishlist.add' || entry.kind === 'wishlist.remove') && entry.payload.postId === postId
+  );
+};
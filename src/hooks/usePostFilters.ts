@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  parsePostFilters,
+  parsePostSort,
+  serializePostFilters,
+  serializePostSort,
+  type PostFilters,
+  type PostSort,
+} from '@/lib/postFilters';
+
+export const usePostFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parsePostFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback((next: PostFilters) => {
+    setSearchParams((current) => serializePostFilters(next, current), { replace: true });
+  }, [setSearchParams]);
+
+  const clearFilters = useCallback(() => setFilters({}), [setFilters]);
+
+  // The order isn't a filter: clearing filters keeps it
+  const sort = useMemo(() => parsePostSort(searchParams), [searchParams]);
+
+  const setSort = useCallback((next: PostSort) => {
+    setSearchParams((current) => serializePostSort(next, current), { replace: true });
+  }, [setSearchParams]);
+
+  return { filters, setFilters, clearFilters, sort, setSort };
+};
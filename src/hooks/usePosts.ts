@@ -1,11 +1,48 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@/lib/api';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import {
+  apiClient,
+  type MyPostsParams,
+  type NewPost,
+  type Post,
+  type PostCursor,
+  type PostPage,
+  type PostUpdate,
+} from '@/lib/api';
+import type { PostFilters, PostSort } from '@/lib/postFilters';
+import { runOrQueue } from '@/lib/outbox';
+import { updateCachedPost, type CachedPosts } from '@/lib/postCache';
+import { getErrorMessage, toApiError } from '@/lib/apiError';
+import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 
-export const usePosts = (params?: { page?: number; limit?: number; category?: string; influencer_id?: string }) => {
+type PostsParams = PostFilters & { sort?: PostSort; limit?: number };
+
+export const usePosts = (params?: PostsParams, options?: { enabled?: boolean }) => {
   return useQuery({
     queryKey: ['posts', params],
     queryFn: () => apiClient.getPosts(params),
+    enabled: options?.enabled,
+  });
+};
+
+export const useInfinitePosts = (params?: PostsParams) => {
+  return useInfiniteQuery({
+    queryKey: ['posts', 'infinite', params],
+    queryFn: ({ pageParam }) => apiClient.getPosts({ ...params, cursor: pageParam }),
+    initialPageParam: null as PostCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+};
+
+// Keyed under 'posts' so realtime changes and revealed new posts reach it like any other feed
+export const useFollowingFeed = () => {
+  const { user } = useAuth();
+  return useInfiniteQuery({
+    queryKey: ['posts', 'following', user?.id],
+    queryFn: ({ pageParam }) => apiClient.getFollowingFeed({ cursor: pageParam }),
+    initialPageParam: null as PostCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
   });
 };
 
@@ -17,65 +54,135 @@ export const usePost = (id: string) => {
   });
 };
 
-export const useMyPosts = (params?: { page?: number; limit?: number }) => {
+export const useMyPosts = (params?: { limit?: number; published?: boolean }) => {
+  return useInfiniteQuery({
+    queryKey: ['my-posts', params],
+    queryFn: ({ pageParam }) => apiClient.getMyPosts({ ...params, cursor: pageParam }),
+    initialPageParam: null as PostCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+};
+
+// Every post in the range, for the content calendar. Pages are followed to the end so a busy
+// month isn't cut short; the result is cached as one page like any other post list.
+export const useMyPostsInRange = (from: Date, to: Date) => {
+  const params: MyPostsParams = { publish_from: from.toISOString(), publish_to: to.toISOString(), limit: 500 };
   return useQuery({
     queryKey: ['my-posts', params],
-    queryFn: () => apiClient.getMyPosts(params),
+    queryFn: async (): Promise<PostPage> => {
+      const posts: Post[] = [];
+      let cursor: PostCursor | null = null;
+      do {
+        const page = await apiClient.getMyPosts({ ...params, cursor });
+        posts.push(...page.posts);
+        cursor = page.nextCursor;
+      } while (cursor);
+      return { posts, nextCursor: null };
+    },
+    placeholderData: keepPreviousData,
   });
 };
 
 export const useCreatePost = () => {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   
   return useMutation({
-    mutationFn: (data: {
-      name: string;
-      description: string;
-      price: string;
-      product_link: string;
-      media_urls: string[];
-      type: 'image' | 'video';
-    }) => apiClient.createPost(data),
-    onSuccess: () => {
+    mutationFn: (data: NewPost) =>
+      runOrQueue(user?.id, { kind: 'post.create', payload: data }, () => apiClient.createPost(data)),
+    // Run even while offline so the post can be queued
+    networkMode: 'always',
+    onSuccess: (result, data) => {
+      const isDraft = data.is_published === false;
+      if (result.queued) {
+        toast.info(
+          isDraft
+            ? "You're offline. Your draft will be saved once you reconnect."
+            : "You're offline. Your post will be published once you reconnect."
+        );
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['my-posts'] });
       queryClient.invalidateQueries({ queryKey: ['posts'] });
-      toast.success('Post created successfully!');
+      const isScheduled = !isDraft && !!data.publish_at && new Date(data.publish_at) > new Date();
+      toast.success(isDraft ? 'Draft saved' : isScheduled ? 'Post scheduled!' : 'Post created successfully!');
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : 'Failed to create post');
+      toast.error(`Failed to create post. ${getErrorMessage(error)}`);
     },
   });
 };
 
+// Feeds an edited post can appear in, patched optimistically while the update is in flight
+const UPDATED_POST_KEYS = [['my-posts'], ['posts']];
+
+type CachedPost = CachedPosts | { post: Post };
+
 export const useUpdatePost = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: any }) => 
+    mutationFn: ({ id, data }: { id: string; data: PostUpdate }) =>
       apiClient.updatePost(id, data),
-    onSuccess: () => {
+    // Tagged products only show up once saved, since they have no ids before then
+    onMutate: async ({ id, data: { products: _products, ...data } }) => {
+      const keys = [...UPDATED_POST_KEYS, ['post', id]];
+      await Promise.all(keys.map((queryKey) => queryClient.cancelQueries({ queryKey })));
+      const previous = keys.flatMap((queryKey) => queryClient.getQueriesData<CachedPost>({ queryKey }));
+
+      UPDATED_POST_KEYS.forEach((queryKey) =>
+        updateCachedPost(queryClient, queryKey, id, (post) => ({ ...post, ...data }))
+      );
+      queryClient.setQueryData<{ post: Post }>(['post', id], (cached) =>
+        cached ? { post: { ...cached.post, ...data } } : cached
+      );
+      return { previous };
+    },
+    onSuccess: (_result, { data }) => {
+      const scheduledFor = data.publish_at && new Date(data.publish_at) > new Date() ? new Date(data.publish_at) : null;
+      if (data.is_published === true && scheduledFor) toast.success(`Post scheduled for ${scheduledFor.toLocaleString()}`);
+      else if (data.is_published === true) toast.success('Post published!');
+      else if (data.is_published === false) toast.success('Post moved to drafts');
+      else if (Object.keys(data).length === 1 && scheduledFor) toast.success(`Post rescheduled to ${scheduledFor.toLocaleString()}`);
+      else toast.success('Post updated successfully!');
+    },
+    onError: (error, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData<CachedPost>(queryKey, data));
+      toast.error(`Failed to update post. ${getErrorMessage(error)}`);
+    },
+    onSettled: (_result, _error, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['my-posts'] });
       queryClient.invalidateQueries({ queryKey: ['posts'] });
-      toast.success('Post updated successfully!');
-    },
-    onError: (error) => {
-      toast.error(error instanceof Error ? error.message : 'Failed to update post');
+      queryClient.invalidateQueries({ queryKey: ['post', id] });
     },
   });
 };
 
 export const useDeletePost = () => {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   
   return useMutation({
-    mutationFn: (id: string) => apiClient.deletePost(id),
-    onSuccess: () => {
+    mutationFn: (id: string) =>
+      runOrQueue(user?.id, { kind: 'post.delete', payload: { postId: id } }, () => apiClient.deletePost(id)),
+    networkMode: 'always',
+    onSuccess: (result) => {
+      if (result.queued) {
+        toast.info(result.entry ? "You're offline. The post will be deleted once you reconnect." : 'Post discarded');
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['my-posts'] });
       queryClient.invalidateQueries({ queryKey: ['posts'] });
       toast.success('Post deleted successfully!');
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : 'Failed to delete post');
+      // Already deleted elsewhere; refresh so it disappears here too
+      if (toApiError(error).kind === 'not-found') {
+        queryClient.invalidateQueries({ queryKey: ['my-posts'] });
+        queryClient.invalidateQueries({ queryKey: ['posts'] });
+        return;
+      }
+      toast.error(`Failed to delete post. ${getErrorMessage(error)}`);
     },
   });
 };
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useFollowingIds } from '@/hooks/useFollows';
+import { useMeasurements } from '@/hooks/useMeasurements';
+import { usePosts } from '@/hooks/usePosts';
+import { useWishlist } from '@/hooks/useWishlist';
+import { rankRecommendations, recommendCreators } from '@/lib/recommendations';
+
+// The newest posts are the candidates; older ones have mostly been seen or saved already
+const CANDIDATE_COUNT = 200;
+
+/**
+ * Posts and creators picked for the current user, ranked on the client from what's already
+ * cached: their profile, measurements, follows and wishlist
+ */
+export const useRecommendations = () => {
+  const { user } = useAuth();
+  const signedIn = !!user;
+  const { data: postsData, isLoading: postsLoading, isError } = usePosts({ limit: CANDIDATE_COUNT });
+  const { data: followingIds, isLoading: followsLoading } = useFollowingIds();
+  const { data: wishlistData, isLoading: wishlistLoading } = useWishlist({ enabled: signedIn });
+  const { data: measurementsData, isLoading: measurementsLoading } = useMeasurements();
+
+  const measurements = measurementsData?.measurements;
+  const { posts, creators } = useMemo(() => {
+    const wishlist = (wishlistData?.wishlistItems || []).flatMap((item) => (item.posts ? [item.posts] : []));
+    const posts = rankRecommendations(postsData?.posts || [], { user, measurements, followingIds, wishlist });
+    return { posts, creators: recommendCreators(posts, followingIds) };
+  }, [postsData, wishlistData, user, measurements, followingIds]);
+
+  return {
+    posts,
+    creators,
+    // Signals that are still loading would reshuffle the ranking when they arrive
+    isLoading: postsLoading || (signedIn && (followsLoading || wishlistLoading || measurementsLoading)),
+    isError,
+  };
+};
@@ -0,0 +1,80 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { apiClient, type Post, type UserSummary } from '@/lib/api';
+import { useInfluencers } from '@/hooks/useUsers';
+import type { TrendingStat } from '@/lib/trending';
+
+const POST_COUNT = 6;
+const CATEGORY_COUNT = 5;
+const CREATOR_COUNT = 5;
+const RANKED_COUNT = Math.max(POST_COUNT, CATEGORY_COUNT, CREATOR_COUNT);
+
+// Trending moves slowly, so it's refetched at most every few minutes
+const TRENDING_STALE_TIME = 5 * 60 * 1000;
+
+export type TrendingPost = TrendingStat & { post: Post };
+export type TrendingCreator = TrendingStat & { creator: UserSummary };
+
+/**
+ * The posts, categories and creators gaining the most engagement this week, with their change
+ * from last week
+ */
+export const useTrending = () => {
+  const ranking = useQuery({
+    queryKey: ['trending', 'ranking', RANKED_COUNT],
+    queryFn: () => apiClient.getTrending({ limit: RANKED_COUNT }),
+    staleTime: TRENDING_STALE_TIME,
+  });
+  const trending = ranking.data;
+
+  const topPostStats = useMemo(() => trending?.posts.slice(0, POST_COUNT) ?? [], [trending]);
+  const topPostIds = useMemo(() => topPostStats.map((stat) => stat.id), [topPostStats]);
+  const topPosts = useQuery({
+    queryKey: ['trending', 'posts', topPostIds],
+    queryFn: () => apiClient.getPostsByIds(topPostIds),
+    enabled: topPostIds.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  const { data: influencers, isLoading: influencersLoading } = useInfluencers();
+
+  const posts = useMemo(() => {
+    const byId = new Map((topPosts.data?.posts || []).map((post) => [post.id, post]));
+    return topPostStats.flatMap((stat): TrendingPost[] => {
+      const post = byId.get(stat.id);
+      return post ? [{ ...stat, post }] : [];
+    });
+  }, [topPostStats, topPosts.data]);
+
+  const creators = useMemo(() => {
+    const byId = new Map((influencers?.users || []).map((user) => [user.id, user]));
+    return (trending?.creators ?? [])
+      .flatMap((stat): TrendingCreator[] => {
+        const creator = byId.get(stat.id);
+        return creator ? [{ ...stat, creator }] : [];
+      })
+      .slice(0, CREATOR_COUNT);
+  }, [trending, influencers]);
+
+  return {
+    posts,
+    categories: trending?.categories.slice(0, CATEGORY_COUNT) ?? [],
+    creators,
+    isLoading: ranking.isLoading || topPosts.isLoading || influencersLoading,
+    isError: ranking.isError,
+  };
+};
+
+// The backend keeps one view per viewer a day; this just saves asking again on the same page load
+const recordedViews = new Set<string>();
+
+/**
+ * Count the signed-in user's view of the post for trending. Failures are ignored; a missed
+ * view isn't worth bothering the shopper about.
+ */
+export const useRecordPostView = (postId: string | undefined) => {
+  useEffect(() => {
+    if (!postId || recordedViews.has(postId)) return;
+    recordedViews.add(postId);
+    apiClient.recordPostView(postId).catch((error) => console.warn('Failed to record post view:', error));
+  }, [postId]);
+};
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api';
+
+export const useInfluencers = () => {
+  return useQuery({
+    queryKey: ['influencers'],
+    queryFn: () => apiClient.getUsers(),
+  });
+};
+
+export const useUser = (id: string, options: { enabled?: boolean } = {}) => {
+  return useQuery({
+    queryKey: ['user', id],
+    queryFn: () => apiClient.getUser(id),
+    enabled: !!id && options.enabled !== false,
+  });
+};
@@ -1,50 +1,134 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@/lib/api';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { apiClient, type WishlistItem } from '@/lib/api';
+import { runOrQueue } from '@/lib/outbox';
+import { getErrorMessage, toApiError } from '@/lib/apiError';
+import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 
-export const useWishlist = () => {
+// Post ids are cached as an array (not a Set) so the cache entry stays serializable.
+// `itemIds` maps wishlist item ids to their posts, for realtime deletes that only carry the id.
+export type WishlistIds = { postIds: string[]; itemIds: Record<string, string> };
+type WishlistData = { wishlistItems: WishlistItem[] };
+
+export const wishlistIdsKey = (userId: string | undefined) => ['wishlist-ids', userId];
+
+export const useWishlist = (options: { enabled?: boolean } = {}) => {
   return useQuery({
     queryKey: ['wishlist'],
     queryFn: () => apiClient.getWishlist(),
+    enabled: options.enabled !== false,
+  });
+};
+
+/**
+ * Ids of every post in the current user's wishlist, fetched once and shared by all wishlist buttons
+ */
+export const useWishlistIds = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: wishlistIdsKey(user?.id),
+    queryFn: () => apiClient.getWishlistPostIds(),
+    enabled: !!user,
+    select: (data) => new Set(data.postIds),
+  });
+};
+
+export const useIsWishlisted = (postId: string) => {
+  const { data: wishlistIds } = useWishlistIds();
+  return !!postId && !!wishlistIds?.has(postId);
+};
+
+// Apply a membership change to the cached ids and return a snapshot to roll back to
+const updateWishlistIds = async (
+  queryClient: QueryClient,
+  userId: string | undefined,
+  update: (postIds: string[]) => string[]
+) => {
+  const key = wishlistIdsKey(userId);
+  await queryClient.cancelQueries({ queryKey: key });
+  const previous = queryClient.getQueryData<WishlistIds>(key);
+  queryClient.setQueryData<WishlistIds>(key, {
+    postIds: update(previous?.postIds || []),
+    itemIds: previous?.itemIds || {},
   });
+  return previous;
 };
 
 export const useAddToWishlist = () => {
   const queryClient = useQueryClient();
-  
+  const { user } = useAuth();
+
   return useMutation({
-    mutationFn: (postId: string) => apiClient.addToWishlist(postId),
-    onSuccess: () => {
+    mutationFn: (postId: string) =>
+      runOrQueue(user?.id, { kind: 'wishlist.add', payload: { postId } }, () => apiClient.addToWishlist(postId)),
+    // Run even while offline so the change can be queued
+    networkMode: 'always',
+    onMutate: async (postId) => {
+      const previousIds = await updateWishlistIds(queryClient, user?.id, (ids) =>
+        ids.includes(postId) ? ids : [...ids, postId]
+      );
+      return { previousIds };
+    },
+    onSuccess: (result) => {
+      if (result.queued) {
+        toast.info("Added to wishlist. We'll sync it when you're back online.");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['wishlist'] });
-      queryClient.invalidateQueries({ queryKey: ['wishlist-check'] });
       toast.success('Added to wishlist!');
     },
-    onError: (error) => {
-      toast.error(error instanceof Error ? error.message : 'Failed to add to wishlist');
+    onError: (error, _postId, context) => {
+      const { kind, code } = toApiError(error);
+      // Already in the wishlist (e.g. added from another tab), so the optimistic state is right
+      if (kind === 'conflict' && code === '23505') {
+        queryClient.invalidateQueries({ queryKey: ['wishlist'] });
+        return;
+      }
+      queryClient.setQueryData(wishlistIdsKey(user?.id), context?.previousIds);
+      toast.error(
+        kind === 'conflict' ? 'This post is no longer available' : `Failed to add to wishlist. ${getErrorMessage(error)}`
+      );
     },
   });
 };
 
 export const useRemoveFromWishlist = () => {
   const queryClient = useQueryClient();
-  
+  const { user } = useAuth();
+
   return useMutation({
-    mutationFn: (postId: string) => apiClient.removeFromWishlist(postId),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['wishlist'] });
-      queryClient.invalidateQueries({ queryKey: ['wishlist-check'] });
-      toast.success('Removed from wishlist');
+    mutationFn: (postId: string) =>
+      runOrQueue(user?.id, { kind: 'wishlist.remove', payload: { postId } }, () => apiClient.removeFromWishlist(postId)),
+    networkMode: 'always',
+    onMutate: async (postId) => {
+      const previousIds = await updateWishlistIds(queryClient, user?.id, (ids) =>
+        ids.filter((id) => id !== postId)
+      );
+
+      // Drop the item from the wishlist page right away as well
+      await queryClient.cancelQueries({ queryKey: ['wishlist'] });
+      const previousWishlist = queryClient.getQueryData<WishlistData>(['wishlist']);
+      if (previousWishlist) {
+        queryClient.setQueryData<WishlistData>(['wishlist'], {
+          wishlistItems: previousWishlist.wishlistItems.filter((item) => item.post_id !== postId),
+        });
+      }
+
+      return { previousIds, previousWishlist };
     },
-    onError: (error) => {
-      toast.error(error instanceof Error ? error.message : 'Failed to remove from wishlist');
+    onSuccess: (result) => {
+      toast.success(result.queued ? "Removed from wishlist. We'll sync it when you're back online." : 'Removed from wishlist');
+    },
+    onError: (error, _postId, context) => {
+      queryClient.setQueryData(wishlistIdsKey(user?.id), context?.previousIds);
+      queryClient.setQueryData(['wishlist'], context?.previousWishlist);
+      toast.error(`Failed to remove from wishlist. ${getErrorMessage(error)}`);
+    },
+    onSettled: (result) => {
+      // A refetch now would bring back items whose removal is still queued
+      if (!result?.queued) {
+        queryClient.invalidateQueries({ queryKey: ['wishlist'] });
+      }
     },
   });
 };
-
-export const useCheckWishlist = (postId: string) => {
-  return useQuery({
-    queryKey: ['wishlist-check', postId],
-    queryFn: () => apiClient.checkWishlist(postId),
-    enabled: !!postId,
-  });
-};
\ No newline at end of file
@@ -9,13 +9,430 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string | null
+          following_id: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string | null
+          follower_id?: string | null
+          following_id?: string | null
+          id?: string
+        }
+        Update: {
+          created_at?: string | null
+          follower_id?: string | null
+          following_id?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_products: {
+        Row: {
+          created_at: string | null
+          id: string
+          image_url: string | null
+          link: string
+          media_index: number
+          position_x: number
+          position_y: number
+          post_id: string
+          price: number | null
+          price_currency: string
+          sort_order: number
+          title: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          image_url?: string | null
+          link: string
+          media_index?: number
+          position_x: number
+          position_y: number
+          post_id: string
+          price?: number | null
+          price_currency?: string
+          sort_order?: number
+          title: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          image_url?: string | null
+          link?: string
+          media_index?: number
+          position_x?: number
+          position_y?: number
+          post_id?: string
+          price?: number | null
+          price_currency?: string
+          sort_order?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_products_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_views: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          viewed_on: string
+          viewer_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          viewed_on?: string
+          viewer_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          viewed_on?: string
+          viewer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_views_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_views_viewer_id_fkey"
+            columns: ["viewer_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      posts: {
+        Row: {
+          author_id: string | null
+          body_types: string[]
+          category: string | null
+          color_seasons: string[]
+          created_at: string | null
+          description: string
+          gender_fit: string | null
+          id: string
+          is_published: boolean | null
+          media_meta: Json
+          media_urls: string[]
+          name: string
+          occasions: string[]
+          price: string
+          price_currency: string
+          price_max: number | null
+          price_min: number | null
+          product_link: string
+          publish_at: string
+          style_tags: string[]
+          type: "image" | "video" | null
+          updated_at: string | null
+          wishlist_count: number
+        }
+        Insert: {
+          author_id?: string | null
+          body_types?: string[]
+          category?: string | null
+          color_seasons?: string[]
+          created_at?: string | null
+          description: string
+          gender_fit?: string | null
+          id?: string
+          is_published?: boolean | null
+          media_meta?: Json
+          media_urls?: string[]
+          name: string
+          occasions?: string[]
+          price: string
+          price_currency?: string
+          price_max?: number | null
+          price_min?: number | null
+          product_link: string
+          publish_at?: string
+          style_tags?: string[]
+          type?: "image" | "video" | null
+          updated_at?: string | null
+          wishlist_count?: number
+        }
+        Update: {
+          author_id?: string | null
+          body_types?: string[]
+          category?: string | null
+          color_seasons?: string[]
+          created_at?: string | null
+          description?: string
+          gender_fit?: string | null
+          id?: string
+          is_published?: boolean | null
+          media_meta?: Json
+          media_urls?: string[]
+          name?: string
+          occasions?: string[]
+          price?: string
+          price_currency?: string
+          price_max?: number | null
+          price_min?: number | null
+          product_link?: string
+          publish_at?: string
+          style_tags?: string[]
+          type?: "image" | "video" | null
+          updated_at?: string | null
+          wishlist_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posts_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_measurements: {
+        Row: {
+          chest: number | null
+          created_at: string | null
+          height: number | null
+          hips: number | null
+          id: string
+          shoe_size: string | null
+          skin_tone: "fair" | "light" | "medium" | "olive" | "tan" | "deep" | "dark" | null
+          updated_at: string | null
+          user_id: string | null
+          waist: number | null
+        }
+        Insert: {
+          chest?: number | null
+          created_at?: string | null
+          height?: number | null
+          hips?: number | null
+          id?: string
+          shoe_size?: string | null
+          skin_tone?: "fair" | "light" | "medium" | "olive" | "tan" | "deep" | "dark" | null
+          updated_at?: string | null
+          user_id?: string | null
+          waist?: number | null
+        }
+        Update: {
+          chest?: number | null
+          created_at?: string | null
+          height?: number | null
+          hips?: number | null
+          id?: string
+          shoe_size?: string | null
+          skin_tone?: "fair" | "light" | "medium" | "olive" | "tan" | "deep" | "dark" | null
+          updated_at?: string | null
+          user_id?: string | null
+          waist?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_measurements_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          body_type: string | null
+          category: string | null
+          color_season: string | null
+          created_at: string | null
+          email: string
+          gender: "male" | "female" | null
+          id: string
+          is_influencer: boolean | null
+          name: string
+          notes: string | null
+          password_hash: string
+          phone: string | null
+          style_preference: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          body_type?: string | null
+          category?: string | null
+          color_season?: string | null
+          created_at?: string | null
+          email: string
+          gender?: "male" | "female" | null
+          id?: string
+          is_influencer?: boolean | null
+          name: string
+          notes?: string | null
+          password_hash: string
+          phone?: string | null
+          style_preference?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          body_type?: string | null
+          category?: string | null
+          color_season?: string | null
+          created_at?: string | null
+          email?: string
+          gender?: "male" | "female" | null
+          id?: string
+          is_influencer?: boolean | null
+          name?: string
+          notes?: string | null
+          password_hash?: string
+          phone?: string | null
+          style_preference?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      wishlist_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          post_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          post_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          post_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_items_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wishlist_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      followed_posts: {
+        Row: {
+          author_id: string | null
+          body_types: string[]
+          category: string | null
+          color_seasons: string[]
+          created_at: string | null
+          description: string
+          gender_fit: string | null
+          id: string
+          is_published: boolean | null
+          media_meta: Json
+          media_urls: string[]
+          name: string
+          occasions: string[]
+          price: string
+          price_currency: string
+          price_max: number | null
+          price_min: number | null
+          product_link: string
+          publish_at: string
+          style_tags: string[]
+          type: "image" | "video" | null
+          updated_at: string | null
+          wishlist_count: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posts_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      get_trending: {
+        Args: { max_rows?: number }
+        Returns: {
+          follows: number
+          id: string
+          last_week: number
+          score: number
+          scope: string
+          this_week: number
+          views: number
+          wishlists: number
+        }[]
+      }
+      set_post_products: {
+        Args: { post_id: string; products: Json }
+        Returns: {
+          created_at: string | null
+          id: string
+          image_url: string | null
+          link: string
+          media_index: number
+          position_x: number
+          position_y: number
+          post_id: string
+          price: number | null
+          price_currency: string
+          sort_order: number
+          title: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
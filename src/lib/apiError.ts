@@ -0,0 +1,187 @@
+/**
+ * One error model for everything the API layer throws, whether it came from our backend,
+ * PostgREST, Supabase Auth or the network itself.
+ */
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'validation'
+  | 'not-found'
+  | 'conflict'
+  | 'rate-limited'
+  | 'server';
+
+// Kinds worth retrying automatically; the rest will fail the same way again
+const TRANSIENT_KINDS: ApiErrorKind[] = ['network', 'timeout', 'rate-limited', 'server'];
+
+const MAX_RETRIES = 3;
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'You appear to be offline. Check your connection and try again.',
+  timeout: 'Request timed out. Please try again.',
+  auth: 'Your session has expired. Please sign in again.',
+  validation: 'Some of the details you entered are invalid.',
+  'not-found': "We couldn't find what you were looking for.",
+  conflict: 'This change conflicts with existing data.',
+  'rate-limited': 'Too many requests. Please wait a moment and try again.',
+  server: 'Something went wrong on our side. Please try again.',
+};
+
+interface ApiErrorOptions {
+  // Backend or Postgres error code, e.g. "23505"
+  code?: string;
+  status?: number;
+  details?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly code?: string;
+  readonly status?: number;
+  readonly details?: string;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string = DEFAULT_MESSAGES[kind], options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.code = options.code;
+    this.status = options.status;
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+
+  get isTransient() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+const NETWORK_FAILURE = /failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Error kind for an HTTP status; 0 means the request never got a response
+ */
+export const kindFromStatus = (status: number): ApiErrorKind => {
+  if (status === 0) return 'network';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 404) return 'not-found';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate-limited';
+  if (status >= 400 && status < 500) return 'validation';
+  return 'server';
+};
+
+// See https://www.postgresql.org/docs/current/errcodes-appendix.html and PostgREST's PGRST codes
+const kindFromPostgresCode = (code: string): ApiErrorKind | undefined => {
+  if (code === 'PGRST116') return 'not-found';
+  if (code === '23505' || code === '23503') return 'conflict';
+  if (code === '42501' || code.startsWith('PGRST3')) return 'auth';
+  if (code === '57014') return 'timeout';
+  if (code.startsWith('22') || code.startsWith('23') || code.startsWith('PGRST1')) return 'validation';
+  if (code.startsWith('08') || code.startsWith('53') || code.startsWith('57')) return 'server';
+  return undefined;
+};
+
+/**
+ * Map a PostgREST error, as returned by supabase-js, to an ApiError
+ */
+export const fromPostgrestError = (
+  error: { message: string; code?: string; details?: string | null; hint?: string | null },
+  status?: number
+): ApiError => {
+  // supabase-js reports fetch failures as errors with an empty code and status 0
+  if (NETWORK_FAILURE.test(error.message)) {
+    return new ApiError('network', undefined, { status: 0, details: error.message, cause: error });
+  }
+  if (/^AbortError/.test(error.message)) {
+    return new ApiError('timeout', undefined, { details: error.message, cause: error });
+  }
+
+  const code = error.code || undefined;
+  const kind = (code && kindFromPostgresCode(code)) || (status ? kindFromStatus(status) : 'server');
+  return new ApiError(kind, undefined, {
+    code,
+    status,
+    details: [error.message, error.details, error.hint].filter(Boolean).join(' '),
+    cause: error,
+  });
+};
+
+/**
+ * Map a failed response from our backend, whose error body is `{ error, code? }`
+ */
+export const fromHttpResponse = (
+  status: number,
+  body: { error?: string; code?: string },
+  retryAfter?: string | null
+): ApiError => {
+  const kind = kindFromStatus(status);
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  return new ApiError(kind, body.error || DEFAULT_MESSAGES[kind], {
+    code: body.code,
+    status,
+    retryAfterMs: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined,
+  });
+};
+
+/**
+ * Normalize anything thrown by the API layer into an ApiError
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+
+  const candidate = (error ?? {}) as { name?: string; message?: string; code?: string; status?: number };
+  const message = candidate.message || '';
+
+  if (candidate.name === 'AbortError') return new ApiError('timeout', undefined, { cause: error });
+  if (candidate.name === 'AuthRetryableFetchError' || NETWORK_FAILURE.test(message)) {
+    return new ApiError('network', undefined, { details: message, cause: error });
+  }
+
+  // Supabase Auth errors (missing session, bad token, ...) are auth failures unless the
+  // auth server itself was overloaded or down
+  if (candidate.name?.startsWith('Auth')) {
+    const statusKind = candidate.status ? kindFromStatus(candidate.status) : undefined;
+    const kind = statusKind === 'rate-limited' || statusKind === 'server' ? statusKind : 'auth';
+    return new ApiError(kind, message || undefined, { status: candidate.status, cause: error });
+  }
+
+  // Supabase Storage errors carry the HTTP status of the failed request
+  if (candidate.name?.startsWith('Storage') && candidate.status) {
+    return new ApiError(kindFromStatus(candidate.status), message || undefined, {
+      status: candidate.status,
+      details: message,
+      cause: error,
+    });
+  }
+
+  // PostgREST errors are plain objects with a `code`
+  if (typeof error === 'object' && error !== null && typeof candidate.code === 'string' && 'details' in error) {
+    return fromPostgrestError(candidate as Parameters<typeof fromPostgrestError>[0]);
+  }
+
+  return new ApiError('server', message || undefined, { cause: error });
+};
+
+/**
+ * User-facing message for an error thrown by the API layer
+ */
+export const getErrorMessage = (error: unknown): string => toApiError(error).message;
+
+/**
+ * React Query retry policy: only transient failures are retried
+ */
+export const shouldRetry = (failureCount: number, error: unknown) =>
+  failureCount < MAX_RETRIES && toApiError(error).isTransient;
+
+export const retryDelay = (attempt: number, error: unknown) =>
+  toApiError(error).retryAfterMs ?? Math.min(1000 * 2 ** attempt, 30000);
@@ -0,0 +1,82 @@
+/**
+ * Profile pictures: the circular crop made in the browser and the two sizes it's stored in.
+ */
+import { renderSquareImage } from '@/lib/imagePipeline';
+
+// Public Supabase Storage bucket holding avatars, one folder per user
+export const AVATAR_BUCKET = 'avatars';
+
+// Images that can be cropped; animated GIFs would only keep their first frame
+export const AVATAR_SOURCE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Edge lengths of the stored images; `avatar_url` points at the large one
+export const AVATAR_SIZES = { large: 512, small: 128 };
+
+// The small image sits next to the large one, with this before the extension
+const SMALL_SUFFIX = '-small';
+
+// Matches avatars stored in our bucket, capturing the path without its extension
+const STORED_AVATAR = new RegExp(`/storage/v1/object/public/${AVATAR_BUCKET}/(.+)\\.(\\w+)$`);
+
+export const smallAvatarPath = (path: string) => path.replace(/(\.\w+)$/, `${SMALL_SUFFIX}$1`);
+
+/**
+ * The small version of a stored avatar, for lists and thumbnails. Avatars from anywhere
+ * else come back unchanged.
+ */
+export const smallAvatarUrl = <T extends string | null | undefined>(url: T): T =>
+  (url && STORED_AVATAR.test(url) ? smallAvatarPath(url) : url) as T;
+
+// Size of the on-screen crop area, which the crop offsets are measured in
+export const CROP_VIEWPORT = 256;
+
+export interface AvatarCrop {
+  // 1 fits the image's shorter side to the viewport
+  zoom: number;
+  // How far the image's center is moved from the viewport's center, in viewport pixels
+  x: number;
+  y: number;
+}
+
+/**
+ * Size of the image on screen for a zoom level, covering the viewport at zoom 1
+ */
+export const cropScale = (width: number, height: number, zoom: number) =>
+  (CROP_VIEWPORT / Math.min(width, height)) * zoom;
+
+/**
+ * Keep the image covering the whole viewport, however far it's dragged
+ */
+export const clampCrop = (width: number, height: number, crop: AvatarCrop): AvatarCrop => {
+  const scale = cropScale(width, height, crop.zoom);
+  const maxX = (width * scale - CROP_VIEWPORT) / 2;
+  const maxY = (height * scale - CROP_VIEWPORT) / 2;
+  return {
+    zoom: crop.zoom,
+    x: Math.max(-maxX, Math.min(maxX, crop.x)),
+    y: Math.max(-maxY, Math.min(maxY, crop.y)),
+  };
+};
+
+/**
+ * Render the cropped area at both stored sizes
+ */
+export const cropAvatar = async (image: HTMLImageElement, crop: AvatarCrop) => {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const render = (size: number) =>
+    renderSquareImage(size, 'avatar', (context) => {
+      const factor = size / CROP_VIEWPORT;
+      const scale = cropScale(width, height, crop.zoom) * factor;
+      context.drawImage(
+        image,
+        (size - width * scale) / 2 + crop.x * factor,
+        (size - height * scale) / 2 + crop.y * factor,
+        width * scale,
+        height * scale
+      );
+    });
+
+  const [large, small] = await Promise.all([render(AVATAR_SIZES.large), render(AVATAR_SIZES.small)]);
+  return { large, small };
+};
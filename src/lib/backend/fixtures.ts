@@ -0,0 +1,276 @@
+/**
+ * Demo influencers and their posts: the seed for the in-memory backend and the single
+ * source for the pages that still render static data.
+ */
+import type { StyleAttributes } from "@/lib/styleAttributes";
+
+export interface DemoShopItem {
+  id: string;
+  title: string;
+  image: string;
+  link: string;
+  // Where the item's pin sits on the post photo, in percent of its width and height
+  x: number;
+  y: number;
+}
+
+export interface DemoProduct {
+  id: number;
+  name: string;
+  price: string;
+  image: string;
+  type: "image" | "video";
+  description: string;
+  caption: string;
+  category: string;
+  // Tags for the style filters and recommendations; anything left out is untagged
+  style?: Partial<StyleAttributes>;
+  shopItems: DemoShopItem[];
+}
+
+export interface DemoInfluencer {
+  id: number;
+  name: string;
+  email: string;
+  category: string;
+  followers: string;
+  following: string;
+  image: string;
+  bio: string;
+  products: DemoProduct[];
+}
+
+// Every demo account, influencers included, signs in with this password
+export const DEMO_PASSWORD = "demo1234";
+
+export const DEMO_SHOPPER = {
+  name: "Demo Shopper",
+  email: "demo@influstyle.app",
+};
+
+export const DEMO_INFLUENCERS: DemoInfluencer[] = [
+  {
+    id: 1,
+    name: "Emma Johnson",
+    email: "emma@influstyle.app",
+    category: "Fashion & Style",
+    followers: "1.2M",
+    following: "245",
+    image: "https://images.unsplash.com/photo-1494790108377-be9c29b29330?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
+    bio: "Fashion enthusiast and style advisor. I help you find the perfect look for any occasion.",
+    products: [
+      {
+        id: 1,
+        name: "Wireless Noise-Cancelling Headphones",
+        price: "₹20,699",
+        image: "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        type: "image",
+        description: "Premium wireless headphones with active noise cancellation for an immersive listening experience.",
+        caption: "Premium wireless headphones for your style.",
+        category: "Accessories",
+        style: { style_tags: ["casual", "streetwear"], occasions: ["everyday", "vacation"], gender_fit: "unisex" },
+        shopItems: [
+          {
+            id: "shirt",
+            title: "Navy Polo Shirt",
+            image: "https://images.unsplash.com/photo-1469398715555-76331e9cc3da?auto=format&fit=crop&w=500&q=80",
+            link: "#",
+            x: 42,
+            y: 38,
+          },
+          {
+            id: "jeans",
+            title: "Classic Blue Jeans",
+            image: "https://images.unsplash.com/photo-1512436991641-6745cdb1723f?auto=format&fit=crop&w=500&q=80",
+            link: "#",
+            x: 55,
+            y: 72,
+          },
+          {
+            id: "watch",
+            title: "Silver Watch",
+            image: "https://images.unsplash.com/photo-1516574187841-cb9cc2ca948b?auto=format&fit=crop&w=500&q=80",
+            link: "#",
+            x: 28,
+            y: 58,
+          },
+          {
+            id: "shoes",
+            title: "White Sneakers",
+            image: "https://images.unsplash.com/photo-1519741497674-611481863552?auto=format&fit=crop&w=500&q=80",
+            link: "#",
+            x: 64,
+            y: 90,
+          },
+        ],
+      },
+      {
+        id: 6,
+        name: "Designer Sunglasses",
+        price: "₹14,539",
+        image: "https://images.unsplash.com/photo-1511499767150-a48a237f0083?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1780&q=80",
+        type: "image",
+        description: "Stylish designer sunglasses that protect your eyes while making a fashion statement.",
+        caption: "Designer sunglasses—ultimate fashion statement!",
+        category: "Accessories",
+        style: {
+          style_tags: ["casual", "streetwear"],
+          color_seasons: ["spring", "summer"],
+          occasions: ["everyday", "vacation"],
+          gender_fit: "unisex",
+        },
+        shopItems: [
+          {
+            id: "sunglasses",
+            title: "Designer Sunglasses",
+            image: "https://images.unsplash.com/photo-1503342217505-b0a15ec3261c?auto=format&fit=crop&w=500&q=80",
+            link: "#",
+            x: 50,
+            y: 42,
+          },
+        ],
+      },
+      {
+        id: 7,
+        name: "Summer Collection Review",
+        price: "₹9,969-₹29,069",
+        image: "https://images.unsplash.com/photo-1581091226825-a6a2a5aee158?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1600&q=80",
+        type: "video",
+        description: "Check out my review of this season's must-have summer fashion pieces.",
+        caption: "Summer Collection Review: My faves of the season.",
+        category: "Summer Trends",
+        style: {
+          body_types: ["pear", "hourglass", "rectangle"],
+          style_tags: ["casual"],
+          color_seasons: ["spring", "summer"],
+          occasions: ["vacation", "party", "date"],
+          gender_fit: "female",
+        },
+        shopItems: [],
+      },
+    ],
+  },
+  {
+    id: 2,
+    name: "Alex Rivera",
+    email: "alex@influstyle.app",
+    category: "Fitness & Wellness",
+    followers: "850K",
+    following: "173",
+    image: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
+    bio: "Certified fitness trainer, wellness advocate and nutrition specialist. Helping you reach your fitness goals.",
+    products: [
+      {
+        id: 2,
+        name: "Premium Yoga Mat",
+        price: "₹7,399",
+        image: "https://images.unsplash.com/photo-1611741385334-864f40e100b8?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        type: "image",
+        description: "High-quality yoga mat with superior grip and cushioning for your practice.",
+        caption: "My daily yoga mat pick for pro grip.",
+        category: "Home",
+        style: { style_tags: ["athletic"], occasions: ["workout"], gender_fit: "unisex" },
+        shopItems: [],
+      },
+      {
+        id: 5,
+        name: "Sustainable Water Bottle",
+        price: "₹2,909",
+        image: "https://images.unsplash.com/photo-1606767041004-6b387b91e360?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1887&q=80",
+        type: "image",
+        description: "Eco-friendly insulated water bottle that keeps drinks cold for 24 hours or hot for 12 hours.",
+        caption: "Eco water bottle—hydrate, stay fit!",
+        category: "Accessories",
+        style: { style_tags: ["athletic"], occasions: ["workout", "everyday"], gender_fit: "unisex" },
+        shopItems: [],
+      },
+      {
+        id: 8,
+        name: "Home Workout Essentials",
+        price: "₹1,246-₹9,969",
+        image: "https://images.unsplash.com/photo-1518611012118-696072aa579a?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        type: "video",
+        description: "Everything you need to create an effective home gym on any budget.",
+        caption: "Home workout essentials, my top picks.",
+        category: "Home",
+        style: { style_tags: ["athletic"], occasions: ["workout"], gender_fit: "unisex" },
+        shopItems: [],
+      },
+    ],
+  },
+  {
+    id: 3,
+    name: "Sarah Chen",
+    email: "sarah@influstyle.app",
+    category: "Beauty & Skincare",
+    followers: "2.3M",
+    following: "298",
+    image: "https://images.unsplash.com/photo-1580489944761-15a19d654956?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
+    bio: "Beauty expert, skincare enthusiast and makeup artist. I share my favorite products and techniques for healthy skin.",
+    products: [
+      {
+        id: 3,
+        name: "Hydrating Facial Serum",
+        price: "₹4,819",
+        image: "https://images.unsplash.com/photo-1608248543803-ba4f8c70ae0b?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1912&q=80",
+        type: "image",
+        description: "Deeply hydrating facial serum with hyaluronic acid and vitamin C for glowing skin.",
+        caption: "Hydrating facial serum for radiant skin 💧",
+        category: "Skincare",
+        style: { color_seasons: ["autumn", "winter"], occasions: ["everyday"], gender_fit: "unisex" },
+        shopItems: [],
+      },
+      {
+        id: 9,
+        name: "Morning Skincare Routine",
+        price: "₹2,492-₹16,609",
+        image: "https://images.unsplash.com/photo-1576426863848-c21f53c60b19?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        type: "video",
+        description: "My step-by-step morning skincare routine for radiant, healthy skin.",
+        caption: "My AM skincare routine for a glow up!",
+        category: "Skincare",
+        style: {
+          color_seasons: ["spring", "summer", "autumn", "winter"],
+          occasions: ["everyday"],
+          gender_fit: "female",
+        },
+        shopItems: [],
+      },
+    ],
+  },
+  {
+    id: 4,
+    name: "Marcus Taylor",
+    email: "marcus@influstyle.app",
+    category: "Home & Lifestyle",
+    followers: "930K",
+    following: "215",
+    image: "https://images.unsplash.com/photo-1500648767791-00dcc994a43e?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
+    bio: "Interior design professional and lifestyle blogger. I help create comfortable, stylish living spaces.",
+    products: [
+      {
+        id: 4,
+        name: "Smart Home Assistant",
+        price: "₹10,719",
+        image: "https://images.unsplash.com/photo-1558089687-f282ffcbc0d3?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1925&q=80",
+        type: "image",
+        description: "Voice-controlled smart home assistant that helps manage your daily tasks and controls your smart devices.",
+        caption: "Smart home assistant: organize life, hands-free.",
+        category: "Home",
+        shopItems: [],
+      },
+      {
+        id: 10,
+        name: "Home Office Setup Guide",
+        price: "₹8,309-₹41,519",
+        image: "https://images.unsplash.com/photo-1585842630354-448fe6ccbef8?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        type: "video",
+        description: "Create the perfect productive workspace with my complete home office setup guide.",
+        caption: "My home office starter kit! #StayProductive",
+        category: "Home",
+        style: { style_tags: ["formal"], occasions: ["work"] },
+        shopItems: [],
+      },
+    ],
+  },
+];
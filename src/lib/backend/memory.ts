@@ -0,0 +1,837 @@
+/**
+ * Backend that keeps all data in memory, mirrored to localStorage, seeded with the demo
+ * fixtures. It runs the app without a Supabase project and mimics Supabase's errors.
+ */
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { DEFAULT_POST_SORT, matchesPostFilters, type PostFilters, type PostSort } from '@/lib/postFilters';
+import type {
+  AuthResponse,
+  FollowCounts,
+  FollowCursor,
+  FollowPage,
+  Measurements,
+  MeasurementsInput,
+  NewPost,
+  Post,
+  PostCursor,
+  PostPage,
+  PostProductInput,
+  PostUpdate,
+  UserCard,
+  UserProfile,
+  UserSummary,
+  WishlistItem,
+} from '@/lib/api';
+import { ApiError } from '@/lib/apiError';
+import type {
+  AuthEvent,
+  Backend,
+  DataChange,
+  FollowListParams,
+  MyPostsParams,
+  RegisterData,
+  UploadOptions,
+} from '@/lib/backend/types';
+import { DEFAULT_PAGE_SIZE, POST_SORT_KEYS, toFollowPage, toPostPage } from '@/lib/backend/paging';
+import { DEMO_INFLUENCERS, DEMO_PASSWORD, DEMO_SHOPPER } from '@/lib/backend/fixtures';
+import { validateMediaFile } from '@/lib/media';
+import { DEFAULT_CURRENCY, parsePrice } from '@/lib/price';
+import { emptyStyleAttributes } from '@/lib/styleAttributes';
+import {
+  TRENDING_LIMIT,
+  TRENDING_LOOKBACK_DAYS,
+  computeTrending,
+  type EngagementEvent,
+  type Trending,
+} from '@/lib/trending';
+import { addDays, addHours, parseISO } from 'date-fns';
+
+const STORAGE_KEY = 'influstyle-memory-backend';
+
+// Carries data changes to the app's other tabs, standing in for Supabase Realtime
+const CHANGES_CHANNEL = 'influstyle-memory-backend-changes';
+
+// Passwords are kept in plain text: this backend only ever holds demo data
+type MemoryUser = UserProfile & { password: string };
+
+export interface MemoryData {
+  users: MemoryUser[];
+  posts: Tables<'posts'>[];
+  post_products: Tables<'post_products'>[];
+  wishlist_items: Tables<'wishlist_items'>[];
+  follows: Tables<'follows'>[];
+  user_measurements: Measurements[];
+  post_views: Tables<'post_views'>[];
+  sessionUserId: string | null;
+}
+
+const readAsDataUrl = (file: File, { onProgress, signal }: UploadOptions = {}) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    const abort = () => reader.abort();
+    signal?.addEventListener('abort', abort);
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new ApiError('server', 'Could not read the file'));
+    reader.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    reader.onloadend = () => signal?.removeEventListener('abort', abort);
+    reader.readAsDataURL(file);
+  });
+
+// Postgres error codes, so callers can branch on them exactly as with Supabase
+const notFound = () => new ApiError('not-found', undefined, { code: 'PGRST116', status: 406 });
+const duplicate = () => new ApiError('conflict', undefined, { code: '23505', status: 409 });
+const missingReference = () => new ApiError('conflict', undefined, { code: '23503', status: 409 });
+const checkViolation = () => new ApiError('validation', undefined, { code: '23514', status: 400 });
+const notAuthenticated = () => new ApiError('auth', 'Not authenticated');
+
+// Stable UUID-shaped ids, so seeded rows look like real ones
+const seedId = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+const SEED_DATE = '2025-10-01T12:00:00.000Z';
+
+// The UTC date of an ISO timestamp, as `post_views.viewed_on` holds it
+const utcDay = (iso: string) => iso.slice(0, 10);
+
+// Anonymous views over the two weeks before `now`, so trending has something to rank. Posts
+// with even ids were viewed mostly this week and odd ones across both, so some are rising.
+const seedViews = (productId: number, now: Date): Tables<'post_views'>[] =>
+  Array.from({ length: 4 + ((productId * 7) % 9) }, (_, index) => {
+    const spread = (index * 5 + productId * 3) % 14;
+    const daysAgo = productId % 2 === 0 ? spread / 2 : spread;
+    const createdAt = addHours(now, -daysAgo * 24 - 6).toISOString();
+    return {
+      id: seedId(20000 + productId * 100 + index),
+      post_id: seedId(1000 + productId),
+      viewer_id: null,
+      created_at: createdAt,
+      viewed_on: utcDay(createdAt),
+    };
+  });
+
+const toProfile = ({ password: _password, ...profile }: MemoryUser): UserProfile => profile;
+
+const toUserCard = ({ id, name, avatar_url, category, is_influencer }: MemoryUser): UserCard => ({
+  id,
+  name,
+  avatar_url,
+  category,
+  is_influencer,
+});
+
+const emptyProfile = (id: string, name: string, email: string, createdAt: string): UserProfile => ({
+  id,
+  name,
+  email,
+  phone: null,
+  gender: null,
+  is_influencer: false,
+  avatar_url: null,
+  body_type: null,
+  style_preference: null,
+  color_season: null,
+  notes: null,
+  bio: null,
+  category: null,
+  created_at: createdAt,
+  updated_at: createdAt,
+});
+
+export const createSeedData = (): MemoryData => {
+  const users: MemoryUser[] = [
+    { ...emptyProfile(seedId(1), DEMO_SHOPPER.name, DEMO_SHOPPER.email, SEED_DATE), password: DEMO_PASSWORD },
+  ];
+  const posts: Tables<'posts'>[] = [];
+  const postProducts: Tables<'post_products'>[] = [];
+  const postViews: Tables<'post_views'>[] = [];
+  const now = new Date();
+
+  DEMO_INFLUENCERS.forEach((influencer) => {
+    const userId = seedId(100 + influencer.id);
+    users.push({
+      ...emptyProfile(userId, influencer.name, influencer.email, SEED_DATE),
+      is_influencer: true,
+      avatar_url: influencer.image,
+      bio: influencer.bio,
+      category: influencer.category,
+      password: DEMO_PASSWORD,
+    });
+
+    influencer.products.forEach((product) => {
+      const price = parsePrice(product.price);
+      // Higher product ids are newer, matching the order the static pages showed them in
+      const createdAt = addDays(parseISO(SEED_DATE), -(20 - product.id)).toISOString();
+      posts.push({
+        id: seedId(1000 + product.id),
+        author_id: userId,
+        name: product.name,
+        description: product.description,
+        price: product.price,
+        price_min: price?.min ?? null,
+        price_max: price?.max ?? null,
+        price_currency: price?.currency ?? DEFAULT_CURRENCY,
+        product_link: '#',
+        media_urls: [product.image],
+        media_meta: {},
+        type: product.type,
+        wishlist_count: 0,
+        category: product.category,
+        ...emptyStyleAttributes(),
+        ...product.style,
+        is_published: true,
+        publish_at: createdAt,
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+      postViews.push(...seedViews(product.id, now));
+      product.shopItems.forEach((item, index) => {
+        postProducts.push({
+          id: seedId(10000 + product.id * 100 + index),
+          post_id: seedId(1000 + product.id),
+          title: item.title,
+          image_url: item.image,
+          link: item.link,
+          price: null,
+          price_currency: DEFAULT_CURRENCY,
+          media_index: 0,
+          position_x: item.x,
+          position_y: item.y,
+          sort_order: index,
+          created_at: createdAt,
+        });
+      });
+    });
+  });
+
+  return {
+    users,
+    posts,
+    post_products: postProducts,
+    wishlist_items: [],
+    follows: [],
+    user_measurements: [],
+    post_views: postViews,
+    sessionUserId: null,
+  };
+};
+
+const sortKey = (post: Tables<'posts'>, sort: PostSort): PostCursor =>
+  sort === 'newest'
+    ? { publish_at: post.publish_at, id: post.id }
+    : { publish_at: post.publish_at, id: post.id, value: post[POST_SORT_KEYS[sort].column] };
+
+// The same order the Supabase backend pages in: newest first, or by the sort column with
+// missing values last, ties broken by id
+const compareSortKeys = (sort: PostSort) => (a: PostCursor, b: PostCursor) => {
+  if (sort === 'newest') return b.publish_at.localeCompare(a.publish_at) || b.id.localeCompare(a.id);
+  const { ascending } = POST_SORT_KEYS[sort];
+  const direction = ascending ? 1 : -1;
+  const aMissing = a.value === null || a.value === undefined;
+  const bMissing = b.value === null || b.value === undefined;
+  if (aMissing !== bMissing) return aMissing ? 1 : -1;
+  return ((aMissing ? 0 : a.value - b.value) || a.id.localeCompare(b.id)) * direction;
+};
+
+// Newest follow first, ties broken by id, as the Supabase backend pages follow lists
+const compareFollows = (a: FollowCursor, b: FollowCursor) =>
+  b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id);
+
+// Published and past its publish time, so visible to everyone
+const isLive = (post: Partial<Pick<Tables<'posts'>, 'is_published' | 'publish_at'>>) =>
+  !!post.is_published && !!post.publish_at && post.publish_at <= new Date().toISOString();
+
+// The changes a user's realtime subscription would see: published posts and their own rows
+const isVisibleTo = (change: DataChange, userId: string | null) => {
+  if (change.table === 'posts') {
+    return [change.new, change.old].some((row) => row && (isLive(row) || row.author_id === userId));
+  }
+  if (change.table === 'wishlist_items') return !!userId && (change.new ?? change.old)?.user_id === userId;
+  const follow = change.new ?? change.old;
+  return !!userId && (follow?.follower_id === userId || follow?.following_id === userId);
+};
+
+export class MemoryBackend implements Backend {
+  private data: MemoryData;
+  private listeners = new Set<(event: AuthEvent, userId: string | null) => void>();
+  private changeListeners = new Set<(change: DataChange) => void>();
+  private changesChannel: BroadcastChannel | null = null;
+
+  // Pass a null storage key to keep the data in memory only, e.g. in tests
+  constructor(private readonly storageKey: string | null = STORAGE_KEY, seed: () => MemoryData = createSeedData) {
+    this.data = this.load() ?? seed();
+
+    if (storageKey && typeof BroadcastChannel !== 'undefined') {
+      this.changesChannel = new BroadcastChannel(CHANGES_CHANNEL);
+      this.changesChannel.onmessage = (event: MessageEvent<DataChange>) => {
+        // Another tab changed the data: pick up its copy before telling our listeners
+        this.data = this.load() ?? this.data;
+        this.notifyChange(event.data);
+      };
+    }
+  }
+
+  private load(): MemoryData | null {
+    if (!this.storageKey) return null;
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return null;
+      const data: MemoryData = JSON.parse(stored);
+      // Data saved before posts could be scheduled
+      data.posts.forEach((post) => {
+        post.publish_at ??= post.created_at ?? new Date().toISOString();
+        // ... and before uploads had thumbnails
+        post.media_meta ??= {};
+      });
+      // ... and before products could be tagged
+      data.post_products ??= [];
+      // ... and before posts could be sorted by wishlist count
+      data.posts.forEach((post) => {
+        post.wishlist_count ??= data.wishlist_items.filter((item) => item.post_id === post.id).length;
+      });
+      // ... and before posts had style attributes
+      data.posts.forEach((post) => {
+        Object.assign(post, { ...emptyStyleAttributes(), ...post });
+      });
+      // ... and before measurements were saved
+      data.user_measurements ??= [];
+      // ... and before views were counted
+      data.post_views ??= [];
+      // ... and before views were kept to one a day
+      data.post_views.forEach((view) => {
+        view.viewed_on ??= utcDay(view.created_at);
+      });
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  private save() {
+    if (!this.storageKey) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn('Failed to save demo data:', error);
+    }
+  }
+
+  private emit(event: AuthEvent) {
+    this.listeners.forEach((listener) => listener(event, this.data.sessionUserId));
+  }
+
+  private notifyChange(change: DataChange) {
+    this.changeListeners.forEach((listener) => listener(change));
+  }
+
+  // Call after save(), so other tabs reload data that already includes the change
+  private publishChange(change: DataChange) {
+    this.notifyChange(change);
+    this.changesChannel?.postMessage(change);
+  }
+
+  private requireUser(): MemoryUser {
+    const user = this.data.users.find((candidate) => candidate.id === this.data.sessionUserId);
+    if (!user) throw notAuthenticated();
+    return user;
+  }
+
+  private withAuthor(post: Tables<'posts'>, includeBio = false): Post {
+    const author = this.data.users.find((user) => user.id === post.author_id);
+    return {
+      ...post,
+      post_products: this.data.post_products
+        .filter((product) => product.post_id === post.id)
+        .sort((a, b) => a.sort_order - b.sort_order),
+      users: author ? { ...toUserCard(author), ...(includeBio ? { bio: author.bio } : {}) } : null,
+    };
+  }
+
+  private page(
+    rows: Tables<'posts'>[],
+    params?: { sort?: PostSort; limit?: number; cursor?: PostCursor | null }
+  ): PostPage {
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+    const sort = params?.sort ?? DEFAULT_POST_SORT;
+    const compare = compareSortKeys(sort);
+    const cursor = params?.cursor;
+    const sorted = rows
+      .filter((post) => !cursor || compare(sortKey(post, sort), cursor) > 0)
+      .sort((a, b) => compare(sortKey(a, sort), sortKey(b, sort)))
+      .slice(0, limit + 1)
+      .map((post) => this.withAuthor(post));
+    return toPostPage(sorted, limit, sort);
+  }
+
+  // Auth endpoints
+  async register(userData: RegisterData): Promise<AuthResponse> {
+    const email = userData.email.trim().toLowerCase();
+    if (this.data.users.some((user) => user.email === email)) {
+      throw new ApiError('conflict', 'An account with this email already exists', { code: '23505', status: 409 });
+    }
+
+    const now = new Date().toISOString();
+    const user: MemoryUser = {
+      ...emptyProfile(crypto.randomUUID(), userData.name, email, now),
+      phone: userData.phone || null,
+      gender: userData.gender,
+      password: userData.password,
+    };
+    this.data.users.push(user);
+    this.data.sessionUserId = user.id;
+    this.save();
+    this.emit('SIGNED_IN');
+    return { message: 'User registered successfully', user: toProfile(user) };
+  }
+
+  async login(credentials: { email: string; password: string }): Promise<AuthResponse> {
+    const email = credentials.email.trim().toLowerCase();
+    const user = this.data.users.find((candidate) => candidate.email === email);
+    if (!user || user.password !== credentials.password) {
+      throw new ApiError('auth', 'Invalid email or password', { status: 401 });
+    }
+
+    this.data.sessionUserId = user.id;
+    this.save();
+    this.emit('SIGNED_IN');
+    return { message: 'Login successful', user: toProfile(user) };
+  }
+
+  async logout() {
+    this.data.sessionUserId = null;
+    this.save();
+    this.emit('SIGNED_OUT');
+  }
+
+  async getSessionUserId() {
+    return this.data.sessionUserId;
+  }
+
+  onAuthStateChange(listener: (event: AuthEvent, userId: string | null) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Posts endpoints
+  async getPosts(
+    params?: PostFilters & { sort?: PostSort; limit?: number; cursor?: PostCursor | null }
+  ): Promise<PostPage> {
+    const rows = this.data.posts.filter((post) => isLive(post) && matchesPostFilters(post, params ?? {}));
+    return this.page(rows, params);
+  }
+
+  async getFollowingFeed(params?: { limit?: number; cursor?: PostCursor | null }): Promise<PostPage> {
+    const user = this.requireUser();
+    const followed = new Set(
+      this.data.follows.filter((follow) => follow.follower_id === user.id).map((follow) => follow.following_id)
+    );
+    const rows = this.data.posts.filter((post) => isLive(post) && followed.has(post.author_id));
+    return this.page(rows, { limit: params?.limit, cursor: params?.cursor });
+  }
+
+  async getPost(id: string): Promise<{ post: Post }> {
+    // Drafts and scheduled posts are visible to their author only, as under the posts RLS policies
+    const post = this.data.posts.find(
+      (candidate) => candidate.id === id && (isLive(candidate) || candidate.author_id === this.data.sessionUserId)
+    );
+    if (!post) throw notFound();
+    return { post: this.withAuthor(post, true) };
+  }
+
+  async getMyPosts(params?: MyPostsParams & { cursor?: PostCursor | null }): Promise<PostPage> {
+    const user = this.requireUser();
+    const rows = this.data.posts.filter(
+      (post) =>
+        post.author_id === user.id &&
+        (params?.published === undefined || post.is_published === params.published) &&
+        (!params?.publish_from || post.publish_at >= params.publish_from) &&
+        (!params?.publish_to || post.publish_at < params.publish_to)
+    );
+    return this.page(rows, params);
+  }
+
+  async getPostsByIds(ids: string[]): Promise<{ posts: Post[] }> {
+    const wanted = new Set(ids);
+    return {
+      posts: this.data.posts.filter((post) => wanted.has(post.id) && isLive(post)).map((post) => this.withAuthor(post)),
+    };
+  }
+
+  async createPost({ products, ...postData }: NewPost): Promise<{ post: Post }> {
+    const user = this.requireUser();
+    const now = new Date().toISOString();
+    // Derive structured amounts from the text price when missing, as the database trigger does
+    const parsed = postData.price_min === undefined || postData.price_min === null ? parsePrice(postData.price) : null;
+    const post: Tables<'posts'> = {
+      id: crypto.randomUUID(),
+      author_id: user.id,
+      name: postData.name,
+      description: postData.description,
+      price: postData.price,
+      price_min: postData.price_min ?? parsed?.min ?? null,
+      price_max: postData.price_max ?? parsed?.max ?? null,
+      price_currency: postData.price_currency ?? parsed?.currency ?? DEFAULT_CURRENCY,
+      product_link: postData.product_link,
+      media_urls: postData.media_urls ?? [],
+      media_meta: postData.media_meta ?? {},
+      type: postData.type ?? 'image',
+      wishlist_count: 0,
+      category: postData.category ?? null,
+      body_types: postData.body_types ?? [],
+      style_tags: postData.style_tags ?? [],
+      color_seasons: postData.color_seasons ?? [],
+      occasions: postData.occasions ?? [],
+      gender_fit: postData.gender_fit ?? null,
+      is_published: postData.is_published ?? true,
+      publish_at: postData.publish_at ?? now,
+      created_at: now,
+      updated_at: now,
+    };
+    this.data.posts.push(post);
+    this.setPostProducts(post.id, products ?? []);
+    this.save();
+    this.publishChange({ table: 'posts', eventType: 'INSERT', new: { ...post }, old: null });
+    return { post: this.withAuthor(post) };
+  }
+
+  async updatePost(id: string, { products, ...postData }: PostUpdate): Promise<{ post: Post }> {
+    const user = this.requireUser();
+    const post = this.data.posts.find((candidate) => candidate.id === id && candidate.author_id === user.id);
+    if (!post) throw notFound();
+    const old = { ...post };
+    Object.assign(post, postData, { id: post.id, updated_at: new Date().toISOString() });
+    if (products) this.setPostProducts(post.id, products);
+    this.save();
+    this.publishChange({ table: 'posts', eventType: 'UPDATE', new: { ...post }, old });
+    return { post: this.withAuthor(post) };
+  }
+
+  async deletePost(id: string) {
+    const user = this.requireUser();
+    const post = this.data.posts.find((candidate) => candidate.id === id && candidate.author_id === user.id);
+    if (!post) return { message: 'Post deleted successfully' };
+    this.data.posts = this.data.posts.filter((candidate) => candidate !== post);
+    // Mirror ON DELETE CASCADE
+    const removedItems = this.data.wishlist_items.filter((item) => item.post_id === id);
+    this.data.wishlist_items = this.data.wishlist_items.filter((item) => item.post_id !== id);
+    this.data.post_products = this.data.post_products.filter((product) => product.post_id !== id);
+    this.save();
+    this.publishChange({ table: 'posts', eventType: 'DELETE', new: null, old: post });
+    removedItems.forEach((item) =>
+      this.publishChange({ table: 'wishlist_items', eventType: 'DELETE', new: null, old: item })
+    );
+    return { message: 'Post deleted successfully' };
+  }
+
+  // Replaces the post's products, as the `set_post_products` function does
+  private setPostProducts(postId: string, products: PostProductInput[]) {
+    const now = new Date().toISOString();
+    this.data.post_products = [
+      ...this.data.post_products.filter((product) => product.post_id !== postId),
+      ...products.map((product, index) => ({
+        ...product,
+        id: crypto.randomUUID(),
+        post_id: postId,
+        price_currency: product.price_currency ?? DEFAULT_CURRENCY,
+        media_index: product.media_index ?? 0,
+        sort_order: index,
+        created_at: now,
+      })),
+    ];
+  }
+
+  // Wishlist endpoints
+  private wishlistItem(item: Tables<'wishlist_items'>): WishlistItem {
+    const post = this.data.posts.find((candidate) => candidate.id === item.post_id);
+    return { ...item, posts: post ? this.withAuthor(post) : null };
+  }
+
+  async getWishlist(): Promise<{ wishlistItems: WishlistItem[] }> {
+    const user = this.requireUser();
+    const wishlistItems = this.data.wishlist_items
+      .filter((item) => item.user_id === user.id)
+      .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? ''))
+      .map((item) => this.wishlistItem(item));
+    return { wishlistItems };
+  }
+
+  // Kept on the post, as the wishlist_items trigger does
+  // Returns the post's change, to publish after saving: like the trigger on `wishlist_items`,
+  // this updates the post, and realtime sends that on too
+  private adjustWishlistCount(postId: string, delta: number): DataChange | null {
+    const post = this.data.posts.find((candidate) => candidate.id === postId);
+    if (!post) return null;
+    post.wishlist_count = Math.max(0, post.wishlist_count + delta);
+    return { table: 'posts', eventType: 'UPDATE', new: { ...post }, old: { id: post.id } };
+  }
+
+  async getWishlistPostIds(): Promise<{ postIds: string[]; itemIds: Record<string, string> }> {
+    const user = this.requireUser();
+    const items = this.data.wishlist_items.filter((item) => item.user_id === user.id);
+    return {
+      postIds: items.map((item) => item.post_id),
+      itemIds: Object.fromEntries(items.map((item) => [item.id, item.post_id])),
+    };
+  }
+
+  async addToWishlist(postId: string): Promise<{ wishlistItem: WishlistItem }> {
+    const user = this.requireUser();
+    if (!this.data.posts.some((post) => post.id === postId)) throw missingReference();
+    if (this.data.wishlist_items.some((item) => item.user_id === user.id && item.post_id === postId)) {
+      throw duplicate();
+    }
+
+    const item: Tables<'wishlist_items'> = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      post_id: postId,
+      created_at: new Date().toISOString(),
+    };
+    this.data.wishlist_items.push(item);
+    const postChange = this.adjustWishlistCount(postId, 1);
+    this.save();
+    this.publishChange({ table: 'wishlist_items', eventType: 'INSERT', new: item, old: null });
+    if (postChange) this.publishChange(postChange);
+    return { wishlistItem: this.wishlistItem(item) };
+  }
+
+  async removeFromWishlist(postId: string) {
+    const user = this.requireUser();
+    const removed = this.data.wishlist_items.find((item) => item.user_id === user.id && item.post_id === postId);
+    this.data.wishlist_items = this.data.wishlist_items.filter((item) => item !== removed);
+    const postChange = removed ? this.adjustWishlistCount(postId, -1) : null;
+    this.save();
+    if (removed) this.publishChange({ table: 'wishlist_items', eventType: 'DELETE', new: null, old: removed });
+    if (postChange) this.publishChange(postChange);
+    return { message: 'Item removed from wishlist' };
+  }
+
+  // Engagement endpoints
+  async recordPostView(postId: string): Promise<void> {
+    const user = this.requireUser();
+    const post = this.data.posts.find((candidate) => candidate.id === postId);
+    if (!post || !isLive(post)) throw notFound();
+    const now = new Date().toISOString();
+    const viewedOn = utcDay(now);
+    // One view per viewer a day, as the unique index on `post_views` allows
+    const seen = this.data.post_views.some(
+      (view) => view.post_id === postId && view.viewer_id === user.id && view.viewed_on === viewedOn
+    );
+    if (seen) return;
+    this.data.post_views.push({
+      id: crypto.randomUUID(),
+      post_id: postId,
+      viewer_id: user.id,
+      created_at: now,
+      viewed_on: viewedOn,
+    });
+    this.save();
+  }
+
+  async getTrending(params?: { limit?: number }): Promise<Trending> {
+    const limit = params?.limit ?? TRENDING_LIMIT;
+    const { posts, categories, creators } = computeTrending(this.engagementEvents());
+    return {
+      posts: posts.slice(0, limit),
+      categories: categories.slice(0, limit),
+      creators: creators.slice(0, limit),
+    };
+  }
+
+  // Every engagement `get_trending` would weigh
+  private engagementEvents(): EngagementEvent[] {
+    const start = addDays(new Date(), -TRENDING_LOOKBACK_DAYS).toISOString();
+    const livePosts = new Map(this.data.posts.filter((post) => isLive(post)).map((post) => [post.id, post]));
+    const influencerIds = new Set(this.data.users.filter((user) => user.is_influencer).map((user) => user.id));
+    // Like `get_trending`, only influencers are credited as creators
+    const creatorId = (userId: string | null) => (userId && influencerIds.has(userId) ? userId : null);
+
+    const postEvent = (kind: 'wishlist' | 'view', postId: string | null, createdAt: string | null): EngagementEvent[] => {
+      const post = postId ? livePosts.get(postId) : undefined;
+      if (!post?.author_id || !createdAt || createdAt < start) return [];
+      return [
+        { kind, post_id: post.id, user_id: creatorId(post.author_id), category: post.category, created_at: createdAt },
+      ];
+    };
+
+    return [
+      ...this.data.wishlist_items.flatMap((item) => postEvent('wishlist', item.post_id, item.created_at)),
+      ...this.data.post_views.flatMap((view) => postEvent('view', view.post_id, view.created_at)),
+      // A follow only counts for the creator followed
+      ...this.data.follows.flatMap(({ following_id, created_at }): EngagementEvent[] =>
+        creatorId(following_id) && created_at >= start
+          ? [{ kind: 'follow', post_id: null, user_id: following_id, category: null, created_at }]
+          : []
+      ),
+    ];
+  }
+
+  // Users endpoints
+  async getUsers(): Promise<{ users: UserSummary[] }> {
+    const users = this.data.users
+      .filter((user) => user.is_influencer)
+      .map(({ id, name, email, avatar_url, category, is_influencer }) => ({
+        id,
+        name,
+        email,
+        avatar_url,
+        category,
+        is_influencer,
+      }));
+    return { users };
+  }
+
+  async getUser(id: string): Promise<{ user: UserProfile }> {
+    const user = this.data.users.find((candidate) => candidate.id === id);
+    if (!user) throw notFound();
+    return { user: toProfile(user) };
+  }
+
+  async updateUser(_id: string, userData: TablesUpdate<'users'>): Promise<{ user: UserProfile }> {
+    // Always update the signed-in user, as the Supabase backend does
+    const user = this.requireUser();
+    const { password_hash: _passwordHash, ...changes } = userData;
+    Object.assign(user, changes, { id: user.id, updated_at: new Date().toISOString() });
+    this.save();
+    return { user: toProfile(user) };
+  }
+
+  async getMyMeasurements(): Promise<{ measurements: Measurements | null }> {
+    const user = this.requireUser();
+    return { measurements: this.data.user_measurements.find((row) => row.user_id === user.id) ?? null };
+  }
+
+  async saveMyMeasurements(measurements: MeasurementsInput): Promise<{ measurements: Measurements }> {
+    const user = this.requireUser();
+    const now = new Date().toISOString();
+    let row = this.data.user_measurements.find((candidate) => candidate.user_id === user.id);
+    if (!row) {
+      row = {
+        id: crypto.randomUUID(),
+        user_id: user.id,
+        height: null,
+        chest: null,
+        waist: null,
+        hips: null,
+        shoe_size: null,
+        skin_tone: null,
+        created_at: now,
+        updated_at: now,
+      };
+      this.data.user_measurements.push(row);
+    }
+    Object.assign(row, measurements, { updated_at: now });
+    this.save();
+    return { measurements: { ...row } };
+  }
+
+  // Follows endpoints
+  async getFollowingIds(): Promise<{ userIds: string[]; followIds: string[] }> {
+    const user = this.requireUser();
+    const follows = this.data.follows.filter((follow) => follow.follower_id === user.id);
+    return { userIds: follows.map((follow) => follow.following_id), followIds: follows.map((follow) => follow.id) };
+  }
+
+  async followUser(userId: string) {
+    const user = this.requireUser();
+    if (!this.data.users.some((candidate) => candidate.id === userId)) throw missingReference();
+    // Stands in for the table's check that nobody follows themselves
+    if (userId === user.id) throw checkViolation();
+    if (this.data.follows.some((follow) => follow.follower_id === user.id && follow.following_id === userId)) {
+      throw duplicate();
+    }
+
+    const follow: Tables<'follows'> = {
+      id: crypto.randomUUID(),
+      follower_id: user.id,
+      following_id: userId,
+      created_at: new Date().toISOString(),
+    };
+    this.data.follows.push(follow);
+    this.save();
+    this.publishChange({ table: 'follows', eventType: 'INSERT', new: follow, old: null });
+    return { message: 'Followed successfully' };
+  }
+
+  async unfollowUser(userId: string) {
+    const user = this.requireUser();
+    const removed = this.data.follows.find(
+      (follow) => follow.follower_id === user.id && follow.following_id === userId
+    );
+    this.data.follows = this.data.follows.filter((follow) => follow !== removed);
+    this.save();
+    if (removed) this.publishChange({ table: 'follows', eventType: 'DELETE', new: null, old: removed });
+    return { message: 'Unfollowed successfully' };
+  }
+
+  async getFollowCounts(userId: string): Promise<FollowCounts> {
+    return {
+      followers: this.data.follows.filter((follow) => follow.following_id === userId).length,
+      following: this.data.follows.filter((follow) => follow.follower_id === userId).length,
+    };
+  }
+
+  async getFollowers(userId: string, params?: FollowListParams): Promise<FollowPage> {
+    return this.followPage((follow) => follow.following_id === userId, 'follower_id', params);
+  }
+
+  async getFollowing(userId: string, params?: FollowListParams): Promise<FollowPage> {
+    return this.followPage((follow) => follow.follower_id === userId, 'following_id', params);
+  }
+
+  // A page of the users on one side of the matching follows, newest follow first
+  private followPage(
+    matches: (follow: Tables<'follows'>) => boolean,
+    side: 'follower_id' | 'following_id',
+    params?: FollowListParams
+  ): FollowPage {
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+    const cursor = params?.cursor;
+    const rows = this.data.follows
+      .filter((follow) => matches(follow) && (!cursor || compareFollows(follow, cursor) > 0))
+      .sort(compareFollows)
+      .slice(0, limit + 1)
+      .map((follow) => {
+        const user = this.data.users.find((candidate) => candidate.id === follow[side]);
+        return { id: follow.id, created_at: follow.created_at, users: user ? toUserCard(user) : null };
+      });
+    return toFollowPage(rows, limit);
+  }
+
+  // Media endpoints
+  // Files are kept inline as data URLs, so they're saved with the post itself. Large videos
+  // may not fit in localStorage and then only last until the page is reloaded.
+  async uploadMedia(file: File, { onProgress, signal }: UploadOptions = {}): Promise<{ url: string }> {
+    this.requireUser();
+    // Stands in for the bucket's size and type limits
+    const invalid = validateMediaFile(file);
+    if (invalid) throw new ApiError('validation', invalid, { status: 400 });
+
+    const url = await readAsDataUrl(file, { onProgress, signal });
+    onProgress?.(1);
+    return { url };
+  }
+
+  // Data URLs go away with the posts that hold them
+  async deleteMedia(_urls: string[]) {}
+
+  // Only the large size is kept; the small one is just a faster download from storage
+  async uploadAvatar({ large }: { large: File; small: File }): Promise<{ url: string }> {
+    this.requireUser();
+    return { url: await readAsDataUrl(large) };
+  }
+
+  // Realtime
+  subscribeToChanges(userId: string | null, listener: (change: DataChange) => void) {
+    const forward = (change: DataChange) => {
+      if (isVisibleTo(change, userId)) listener(change);
+    };
+    this.changeListeners.add(forward);
+    return () => {
+      this.changeListeners.delete(forward);
+    };
+  }
+}
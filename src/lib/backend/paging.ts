@@ -0,0 +1,40 @@
+import type { FollowPage, Post, PostCursor, PostPage, UserCard } from '@/lib/api';
+import { DEFAULT_POST_SORT, type PostSort } from '@/lib/postFilters';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// The column each order other than newest first sorts by, with `id` breaking ties in the
+// same direction. Posts without a price come last either way.
+export const POST_SORT_KEYS: Record<
+  Exclude<PostSort, 'newest'>,
+  { column: 'wishlist_count' | 'price_min' | 'price_max'; ascending: boolean }
+> = {
+  most_wishlisted: { column: 'wishlist_count', ascending: false },
+  price_asc: { column: 'price_min', ascending: true },
+  price_desc: { column: 'price_max', ascending: false },
+};
+
+// Pages are fetched with one extra row so `nextCursor` is only set when more rows exist.
+export const toPostPage = (rows: Post[], limit: number, sort: PostSort = DEFAULT_POST_SORT): PostPage => {
+  const posts = rows.slice(0, limit);
+  const last = posts[posts.length - 1];
+  if (rows.length <= limit || !last) return { posts, nextCursor: null };
+
+  const cursor: PostCursor = { publish_at: last.publish_at, id: last.id };
+  if (sort !== 'newest') cursor.value = last[POST_SORT_KEYS[sort].column];
+  return { posts, nextCursor: cursor };
+};
+
+// Follow lists page by the follow row, newest first, so a deleted account in the list
+// doesn't throw the cursor off
+export const toFollowPage = (
+  rows: { id: string; created_at: string; users: UserCard | null }[],
+  limit: number
+): FollowPage => {
+  const follows = rows.slice(0, limit);
+  const last = follows[follows.length - 1];
+  return {
+    users: follows.map((follow) => follow.users).filter((user): user is UserCard => !!user),
+    nextCursor: rows.length > limit && last ? { created_at: last.created_at, id: last.id } : null,
+  };
+};
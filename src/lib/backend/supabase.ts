@@ -0,0 +1,896 @@
+/**
+ * Backend backed by our Supabase project, plus the REST API for registration and login.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { DEFAULT_POST_SORT, type PostFilters, type PostSort } from '@/lib/postFilters';
+import type {
+  AuthResponse,
+  FollowCounts,
+  FollowCursor,
+  FollowPage,
+  Measurements,
+  MeasurementsInput,
+  NewPost,
+  Post,
+  PostCursor,
+  PostPage,
+  PostProduct,
+  PostProductInput,
+  PostUpdate,
+  UserProfile,
+  WishlistItem,
+} from '@/lib/api';
+import { ApiError, fromHttpResponse, fromPostgrestError, toApiError } from '@/lib/apiError';
+import type {
+  AuthEvent,
+  Backend,
+  DataChange,
+  FollowListParams,
+  MyPostsParams,
+  RealtimeTable,
+  RegisterData,
+  UploadOptions,
+} from '@/lib/backend/types';
+import { DEFAULT_PAGE_SIZE, POST_SORT_KEYS, toFollowPage, toPostPage } from '@/lib/backend/paging';
+import { AVATAR_BUCKET, smallAvatarPath } from '@/lib/avatar';
+import { MEDIA_BUCKET, mediaExtension, mediaFiles, readMediaMeta } from '@/lib/media';
+import { TRENDING_LIMIT, weekOverWeekChange, type Trending } from '@/lib/trending';
+import { addDays, parseISO } from 'date-fns';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3002/api';
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || 'anon-key-not-configured';
+
+// Every column of `users` except `password_hash`, which must never reach the browser.
+const USER_PROFILE_COLUMNS = 'id, name, email, phone, gender, is_influencer, avatar_url, body_type, style_preference, color_season, notes, bio, category, created_at, updated_at';
+
+const USER_CARD_COLUMNS = 'id, name, avatar_url, category, is_influencer';
+
+const POST_WITH_AUTHOR = '*, users!posts_author_id_fkey (id, name, avatar_url, category, is_influencer)';
+const POST_WITH_AUTHOR_BIO = '*, users!posts_author_id_fkey (id, name, avatar_url, category, is_influencer, bio), post_products (*)';
+const WISHLIST_WITH_POST = '*, posts (*, users!posts_author_id_fkey (id, name, avatar_url, category, is_influencer))';
+
+// Where each scope returned by `get_trending` goes
+const TRENDING_SCOPES: Record<string, keyof Trending> = {
+  post: 'posts',
+  category: 'categories',
+  creator: 'creators',
+};
+
+const toDataChange = <T extends RealtimeTable>(
+  table: T,
+  payload: RealtimePostgresChangesPayload<Tables<T>>
+) =>
+  ({
+    table,
+    eventType: payload.eventType,
+    new: payload.eventType === 'DELETE' ? null : payload.new,
+    old: payload.eventType === 'INSERT' ? null : payload.old,
+  }) as DataChange;
+
+// Rows strictly after the cursor in (publish_at DESC, id DESC) order. Timestamps are quoted
+// because they contain PostgREST's reserved `.` and `:` characters.
+const postCursorFilter = ({ publish_at, id }: PostCursor) =>
+  `publish_at.lt."${publish_at}",and(publish_at.eq."${publish_at}",id.lt.${id})`;
+
+// Follows strictly after the cursor in (created_at DESC, id DESC) order
+const followCursorFilter = ({ created_at, id }: FollowCursor) =>
+  `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`;
+
+// Rows strictly after the cursor when sorting by a column other than publish time. Rows
+// with no value come last, so they follow every row that has one.
+const sortedCursorFilter = (sort: Exclude<PostSort, 'newest'>, { value, id }: PostCursor) => {
+  const { column, ascending } = POST_SORT_KEYS[sort];
+  const [beyond, idBeyond] = ascending ? ['gt', `id.gt.${id}`] : ['lt', `id.lt.${id}`];
+  if (value === null || value === undefined) return `and(${column}.is.null,${idBeyond})`;
+  return `${column}.${beyond}.${value},and(${column}.eq.${value},${idBeyond}),${column}.is.null`;
+};
+
+/**
+ * PUT a file to a signed Storage upload URL. supabase-js uploads with fetch, which can't
+ * report progress, so this goes through XMLHttpRequest instead.
+ */
+const putWithProgress = (signedUrl: string, file: File, { onProgress, signal }: UploadOptions) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort);
+
+    xhr.open('PUT', signedUrl);
+    xhr.setRequestHeader('apikey', SUPABASE_ANON_KEY);
+    xhr.setRequestHeader('content-type', file.type);
+    xhr.setRequestHeader('cache-control', 'max-age=3600');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1);
+        resolve();
+        return;
+      }
+      let body: { error?: string; message?: string } = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Not JSON; fall back to the default message for the status
+      }
+      reject(fromHttpResponse(xhr.status, { error: body.message || body.error }));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new ApiError('network'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    xhr.send(file);
+  });
+
+export class SupabaseBackend implements Backend {
+  private async _fetch<T>(endpoint: string, options: RequestInit = {}, timeoutMs = 20000): Promise<T> {
+    try {
+      const url = `${API_BASE_URL}${endpoint}`;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      const response = await fetch(url, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+        signal: controller.signal,
+        ...options,
+      });
+
+      clearTimeout(timer);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw fromHttpResponse(response.status, errorData, response.headers.get('Retry-After'));
+      }
+
+      return response.json();
+    } catch (error: unknown) {
+      console.error('API request failed:', error);
+      throw toApiError(error);
+    }
+  }
+
+  // Auth endpoints
+  private isAuthWithTokens(data: unknown): data is { access_token: string; refresh_token: string } {
+    if (!data || typeof data !== 'object') return false;
+    const d = data as Record<string, unknown>;
+    return typeof d['access_token'] === 'string' && typeof d['refresh_token'] === 'string';
+  }
+
+  async register(userData: RegisterData) {
+    try {
+      const response = await this._fetch<AuthResponse>('/auth/register', {
+        method: 'POST',
+        body: JSON.stringify(userData),
+      });
+
+      // Set the session in Supabase client if available
+      if (response.session) {
+        try {
+          const { error: sessionError } = await supabase.auth.setSession(response.session);
+          if (sessionError) {
+            console.warn('Session setting failed, but continuing with manual auth:', sessionError);
+          }
+        } catch (sessionError) {
+          console.warn('Session setting failed, but continuing with manual auth:', sessionError);
+        }
+      }
+
+      return response;
+    } catch (error) {
+      console.error('Registration error:', error);
+      throw error;
+    }
+  }
+
+  async login(credentials: { email: string; password: string }) {
+    try {
+      const response = await this._fetch<AuthResponse>('/auth/login', {
+        method: 'POST',
+        body: JSON.stringify(credentials),
+      });
+
+      // Set Supabase session after backend login
+      if (this.isAuthWithTokens(response)) {
+        await supabase.auth.setSession({
+          access_token: response.access_token,
+          refresh_token: response.refresh_token,
+        });
+      }
+
+      return response;
+    } catch (error) {
+      console.error('Login error:', error);
+      throw error;
+    }
+  }
+
+  async logout() {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.warn('Supabase logout failed:', error);
+    // Force clear the in-memory session as well as any persisted session keys
+    await supabase.auth.setSession(null);
+    Object.keys(localStorage).forEach((key) => {
+      if (key.startsWith('sb-')) localStorage.removeItem(key);
+    });
+    Object.keys(sessionStorage).forEach((key) => {
+      if (key.startsWith('sb-')) sessionStorage.removeItem(key);
+    });
+  }
+
+  async getSessionUserId() {
+    const { data: { session }, error } = await supabase.auth.getSession();
+    if (error) throw toApiError(error);
+    if (!session?.access_token) return null;
+
+    // Validate the token with the auth server rather than trusting the stored session
+    const { data: { user }, error: userError } = await supabase.auth.getUser(session.access_token);
+    if (userError) throw toApiError(userError);
+    return user?.id ?? null;
+  }
+
+  onAuthStateChange(listener: (event: AuthEvent, userId: string | null) => void) {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'TOKEN_REFRESHED') {
+        listener(event, session?.user?.id ?? null);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }
+
+  // Posts endpoints
+  async getPosts(
+    params?: PostFilters & { sort?: PostSort; limit?: number; cursor?: PostCursor | null }
+  ): Promise<PostPage> {
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+    const sort = params?.sort ?? DEFAULT_POST_SORT;
+
+    let query = supabase
+      .from('posts')
+      .select(POST_WITH_AUTHOR)
+      .eq('is_published', true)
+      // Authors can read their own scheduled posts, so hide those explicitly
+      .lte('publish_at', new Date().toISOString());
+
+    if (params?.influencer_id) {
+      query = query.eq('author_id', params.influencer_id);
+    }
+
+    if (params?.category) {
+      query = query.eq('category', params.category);
+    }
+
+    if (params?.type) {
+      query = query.eq('type', params.type);
+    }
+
+    // A post matches a budget when its price range overlaps it
+    if (params?.price_min !== undefined) {
+      query = query.gte('price_max', params.price_min);
+    }
+
+    if (params?.price_max !== undefined) {
+      query = query.lte('price_min', params.price_max);
+    }
+
+    if (params?.date_from) {
+      query = query.gte('publish_at', parseISO(params.date_from).toISOString());
+    }
+
+    if (params?.date_to) {
+      query = query.lt('publish_at', addDays(parseISO(params.date_to), 1).toISOString());
+    }
+
+    // Array containment, served by the GIN indexes on the style columns
+    if (params?.body_type) {
+      query = query.contains('body_types', [params.body_type]);
+    }
+
+    if (params?.style_tag) {
+      query = query.contains('style_tags', [params.style_tag]);
+    }
+
+    if (params?.color_season) {
+      query = query.contains('color_seasons', [params.color_season]);
+    }
+
+    if (params?.occasion) {
+      query = query.contains('occasions', [params.occasion]);
+    }
+
+    if (params?.gender_fit) {
+      query = query.in('gender_fit', [params.gender_fit, 'unisex']);
+    }
+
+    if (params?.cursor) {
+      query = query.or(
+        sort === 'newest' ? postCursorFilter(params.cursor) : sortedCursorFilter(sort, params.cursor)
+      );
+    }
+
+    if (sort === 'newest') {
+      query = query.order('publish_at', { ascending: false }).order('id', { ascending: false });
+    } else {
+      const { column, ascending } = POST_SORT_KEYS[sort];
+      query = query.order(column, { ascending, nullsFirst: false }).order('id', { ascending });
+    }
+
+    const { data, error } = await query.limit(limit + 1);
+    if (error) throw fromPostgrestError(error);
+
+    return toPostPage(data, limit, sort);
+  }
+
+  async getFollowingFeed(params?: { limit?: number; cursor?: PostCursor | null }): Promise<PostPage> {
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+    const userId = await this.getSessionUserId();
+    if (!userId) throw new ApiError('auth', 'Not authenticated');
+
+    // Who the user follows is looked up in the database, so the request stays the same size
+    // however many users they follow
+    let query = supabase
+      .from('followed_posts')
+      .select(POST_WITH_AUTHOR)
+      .eq('is_published', true)
+      .lte('publish_at', new Date().toISOString());
+
+    if (params?.cursor) {
+      query = query.or(postCursorFilter(params.cursor));
+    }
+
+    const { data, error } = await query
+      .order('publish_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+    if (error) throw fromPostgrestError(error);
+
+    return toPostPage(data, limit);
+  }
+
+  async getPost(id: string): Promise<{ post: Post }> {
+    // Row level security hides drafts and scheduled posts from everyone but their author
+    const { data, error } = await supabase
+      .from('posts')
+      .select(POST_WITH_AUTHOR_BIO)
+      .eq('id', id)
+      .order('sort_order', { referencedTable: 'post_products' })
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    return { post: data };
+  }
+
+  async getPostsByIds(ids: string[]): Promise<{ posts: Post[] }> {
+    if (ids.length === 0) return { posts: [] };
+    const { data, error } = await supabase
+      .from('posts')
+      .select(POST_WITH_AUTHOR)
+      .in('id', ids)
+      .eq('is_published', true)
+      .lte('publish_at', new Date().toISOString());
+
+    if (error) throw fromPostgrestError(error);
+    return { posts: data };
+  }
+
+  async createPost({ products, ...postData }: NewPost): Promise<{ post: Post }> {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw toApiError(userError);
+    if (!user) throw new ApiError('auth', 'Not authenticated');
+    const { data, error } = await supabase
+      .from('posts')
+      .insert([{
+        ...postData,
+        author_id: user.id,
+        is_published: postData.is_published ?? true,
+      }])
+      .select(POST_WITH_AUTHOR)
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    if (!products?.length) return { post: { ...data, post_products: [] } };
+
+    try {
+      return { post: { ...data, post_products: await this.setPostProducts(data.id, products) } };
+    } catch (productsError) {
+      // Saving again would post twice, so don't leave the post up without its tags
+      await supabase.from('posts').delete().eq('id', data.id);
+      throw productsError;
+    }
+  }
+
+  async getMyPosts(params?: MyPostsParams & { cursor?: PostCursor | null }): Promise<PostPage> {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw toApiError(userError);
+    if (!user) throw new ApiError('auth', 'Not authenticated');
+
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+
+    let query = supabase
+      .from('posts')
+      .select('*, post_products (*)')
+      .eq('author_id', user.id);
+
+    if (params?.published !== undefined) {
+      query = query.eq('is_published', params.published);
+    }
+
+    if (params?.publish_from) {
+      query = query.gte('publish_at', params.publish_from);
+    }
+
+    if (params?.publish_to) {
+      query = query.lt('publish_at', params.publish_to);
+    }
+
+    if (params?.cursor) {
+      query = query.or(postCursorFilter(params.cursor));
+    }
+
+    const { data, error } = await query
+      .order('publish_at', { ascending: false })
+      .order('id', { ascending: false })
+      .order('sort_order', { referencedTable: 'post_products' })
+      .limit(limit + 1);
+    if (error) throw fromPostgrestError(error);
+
+    return toPostPage(data, limit);
+  }
+
+  async updatePost(id: string, { products, ...postData }: PostUpdate): Promise<{ post: Post }> {
+    const previousMedia = postData.media_urls || postData.media_meta ? await this.getPostMedia(id) : [];
+
+    const { data, error } = await supabase
+      .from('posts')
+      .update({
+        ...postData,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+
+    const currentMedia = mediaFiles(data.media_urls ?? [], readMediaMeta(data.media_meta));
+    await this.deleteOrphanedMedia(previousMedia.filter((url) => !currentMedia.includes(url)));
+    if (!products) return { post: data };
+    return { post: { ...data, post_products: await this.setPostProducts(id, products) } };
+  }
+
+  // Replaces every product tagged on the post in one transaction
+  private async setPostProducts(postId: string, products: PostProductInput[]): Promise<PostProduct[]> {
+    const { data, error } = await supabase.rpc('set_post_products', {
+      post_id: postId,
+      products,
+    });
+
+    if (error) throw fromPostgrestError(error);
+    return data;
+  }
+
+  async deletePost(id: string) {
+    const media = await this.getPostMedia(id);
+
+    const { error } = await supabase
+      .from('posts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw fromPostgrestError(error);
+
+    await this.deleteOrphanedMedia(media);
+    return { message: 'Post deleted successfully' };
+  }
+
+  private async getPostMedia(id: string) {
+    const { data, error } = await supabase
+      .from('posts')
+      .select('media_urls, media_meta')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw fromPostgrestError(error);
+    return mediaFiles(data?.media_urls ?? [], readMediaMeta(data?.media_meta));
+  }
+
+  // The post change has already been saved, so a failed cleanup only leaves a stray file
+  private async deleteOrphanedMedia(urls: string[]) {
+    try {
+      await this.deleteMedia(urls);
+    } catch (error) {
+      console.warn('Could not delete media removed from a post:', error);
+    }
+  }
+
+  // Media endpoints
+  async uploadMedia(file: File, options: UploadOptions = {}): Promise<{ url: string }> {
+    const userId = await this.getSessionUserId();
+    if (!userId) throw new ApiError('auth', 'Not authenticated');
+
+    // Storage policies only let users write inside the folder named after their id
+    const path = `${userId}/${crypto.randomUUID()}.${mediaExtension(file)}`;
+    const bucket = supabase.storage.from(MEDIA_BUCKET);
+
+    const { data, error } = await bucket.createSignedUploadUrl(path);
+    if (error) throw toApiError(error);
+
+    await putWithProgress(data.signedUrl, file, options);
+    return { url: bucket.getPublicUrl(path).data.publicUrl };
+  }
+
+  async deleteMedia(urls: string[]) {
+    const bucket = supabase.storage.from(MEDIA_BUCKET);
+    const prefix = bucket.getPublicUrl('').data.publicUrl;
+    const paths = urls.filter((url) => url.startsWith(prefix)).map((url) => url.slice(prefix.length));
+    if (paths.length === 0) return;
+
+    const { error } = await bucket.remove(paths);
+    if (error) throw toApiError(error);
+  }
+
+  // Wishlist endpoints
+  async getWishlist(): Promise<{ wishlistItems: WishlistItem[] }> {
+    const { data, error } = await supabase
+      .from('wishlist_items')
+      .select(WISHLIST_WITH_POST)
+      .order('created_at', { ascending: false });
+
+    if (error) throw fromPostgrestError(error);
+    return { wishlistItems: data };
+  }
+
+  async addToWishlist(postId: string): Promise<{ wishlistItem: WishlistItem }> {
+    await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('wishlist_items')
+      .insert([{ post_id: postId }])
+      .select(WISHLIST_WITH_POST)
+      .single();
+    if (error) throw fromPostgrestError(error);
+    return { wishlistItem: data };
+  }
+
+  async removeFromWishlist(postId: string) {
+    const { error } = await supabase
+      .from('wishlist_items')
+      .delete()
+      .eq('post_id', postId);
+
+    if (error) throw fromPostgrestError(error);
+    return { message: 'Item removed from wishlist' };
+  }
+
+  async getWishlistPostIds(): Promise<{ postIds: string[]; itemIds: Record<string, string> }> {
+    const { data, error } = await supabase
+      .from('wishlist_items')
+      .select('id, post_id');
+
+    if (error) throw fromPostgrestError(error);
+    const items = data.filter((item) => item.post_id);
+    return {
+      postIds: items.map((item) => item.post_id),
+      itemIds: Object.fromEntries(items.map((item) => [item.id, item.post_id])),
+    };
+  }
+
+  // Engagement endpoints
+  async recordPostView(postId: string): Promise<void> {
+    const viewerId = await this.getSessionUserId();
+    if (!viewerId) throw new ApiError('auth', 'Not authenticated');
+    // No select policy covers views, so the row isn't read back
+    const { error } = await supabase.from('post_views').insert({ post_id: postId, viewer_id: viewerId });
+    // Already viewed today, which counts once
+    if (error && error.code !== '23505') throw fromPostgrestError(error);
+  }
+
+  async getTrending(params?: { limit?: number }): Promise<Trending> {
+    const { data, error } = await supabase.rpc('get_trending', { max_rows: params?.limit ?? TRENDING_LIMIT });
+    if (error) throw fromPostgrestError(error);
+
+    // Rows come ranked within each scope
+    const trending: Trending = { posts: [], categories: [], creators: [] };
+    data.forEach((row) => {
+      const scope = TRENDING_SCOPES[row.scope];
+      if (!scope) return;
+      trending[scope].push({
+        id: row.id,
+        score: row.score,
+        thisWeek: row.this_week,
+        lastWeek: row.last_week,
+        change: weekOverWeekChange(row.this_week, row.last_week),
+        counts: { view: row.views, wishlist: row.wishlists, follow: row.follows },
+      });
+    });
+    return trending;
+  }
+
+  // Users endpoints
+  async getUsers() {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, name, email, avatar_url, category, is_influencer')
+      .eq('is_influencer', true);
+
+    if (error) throw fromPostgrestError(error);
+    return { users: data };
+  }
+
+  async getUser(id: string): Promise<{ user: UserProfile }> {
+    const { data, error } = await supabase
+      .from('users')
+      .select(USER_PROFILE_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    return { user: data };
+  }
+
+  async updateUser(_id: string, userData: TablesUpdate<'users'>): Promise<{ user: UserProfile }> {
+    // Always use the current authenticated user's ID
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw toApiError(userError);
+    if (!user) throw new ApiError('auth', 'Not authenticated');
+
+    let previousAvatar: string | null = null;
+    if (userData.avatar_url !== undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from('users')
+        .select('avatar_url')
+        .eq('id', user.id)
+        .single();
+      if (currentError) throw fromPostgrestError(currentError);
+      previousAvatar = current.avatar_url;
+    }
+
+    const { data, error } = await supabase
+      .from('users')
+      .update({
+        ...userData,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', user.id)
+      .select(USER_PROFILE_COLUMNS)
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+
+    if (previousAvatar && previousAvatar !== data.avatar_url) {
+      await this.deleteAvatar(previousAvatar);
+    }
+    return { user: data };
+  }
+
+  async getMyMeasurements(): Promise<{ measurements: Measurements | null }> {
+    const userId = await this.getSessionUserId();
+    if (!userId) throw new ApiError('auth', 'Not authenticated');
+
+    const { data, error } = await supabase
+      .from('user_measurements')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw fromPostgrestError(error);
+    return { measurements: data };
+  }
+
+  async saveMyMeasurements(measurements: MeasurementsInput): Promise<{ measurements: Measurements }> {
+    const userId = await this.getSessionUserId();
+    if (!userId) throw new ApiError('auth', 'Not authenticated');
+
+    // Each user has a single row, so saving again replaces it
+    const { data, error } = await supabase
+      .from('user_measurements')
+      .upsert(
+        { ...measurements, user_id: userId, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      )
+      .select('*')
+      .single();
+
+    if (error) throw fromPostgrestError(error);
+    return { measurements: data };
+  }
+
+  async uploadAvatar({ large, small }: { large: File; small: File }): Promise<{ url: string }> {
+    const userId = await this.getSessionUserId();
+    if (!userId) throw new ApiError('auth', 'Not authenticated');
+
+    // Storage policies only let users write inside the folder named after their id
+    const path = `${userId}/${crypto.randomUUID()}.${mediaExtension(large)}`;
+    const bucket = supabase.storage.from(AVATAR_BUCKET);
+    // Every upload gets a new path, so the files never change and can be cached for good
+    const options = { cacheControl: '31536000', upsert: false };
+
+    const { error } = await bucket.upload(path, large, { ...options, contentType: large.type });
+    if (error) throw toApiError(error);
+    const { error: smallError } = await bucket.upload(smallAvatarPath(path), small, {
+      ...options,
+      contentType: small.type,
+    });
+    if (smallError) {
+      await bucket.remove([path]);
+      throw toApiError(smallError);
+    }
+
+    return { url: bucket.getPublicUrl(path).data.publicUrl };
+  }
+
+  // The profile already points elsewhere, so a failed cleanup only leaves stray files
+  private async deleteAvatar(url: string) {
+    const bucket = supabase.storage.from(AVATAR_BUCKET);
+    const prefix = bucket.getPublicUrl('').data.publicUrl;
+    if (!url.startsWith(prefix)) return;
+
+    const path = url.slice(prefix.length);
+    const { error } = await bucket.remove([path, smallAvatarPath(path)]);
+    if (error) console.warn('Could not delete the previous avatar:', error);
+  }
+
+  // Follows endpoints
+  async getFollowingIds(): Promise<{ userIds: string[]; followIds: string[] }> {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw toApiError(userError);
+    if (!user) throw new ApiError('auth', 'Not authenticated');
+
+    const { data, error } = await supabase
+      .from('follows')
+      .select('id, following_id')
+      .eq('follower_id', user.id);
+
+    if (error) throw fromPostgrestError(error);
+    return {
+      userIds: data.map((follow) => follow.following_id).filter(Boolean),
+      followIds: data.map((follow) => follow.id),
+    };
+  }
+
+  async followUser(userId: string) {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw toApiError(userError);
+    if (!user) throw new ApiError('auth', 'Not authenticated');
+
+    const { error } = await supabase
+      .from('follows')
+      .insert([{ follower_id: user.id, following_id: userId }]);
+
+    if (error) throw fromPostgrestError(error);
+    return { message: 'Followed successfully' };
+  }
+
+  async unfollowUser(userId: string) {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError) throw toApiError(userError);
+    if (!user) throw new ApiError('auth', 'Not authenticated');
+
+    const { error } = await supabase
+      .from('follows')
+      .delete()
+      .eq('follower_id', user.id)
+      .eq('following_id', userId);
+
+    if (error) throw fromPostgrestError(error);
+    return { message: 'Unfollowed successfully' };
+  }
+
+  async getFollowCounts(userId: string): Promise<FollowCounts> {
+    const countFollows = (column: 'follower_id' | 'following_id') =>
+      supabase.from('follows').select('id', { count: 'exact', head: true }).eq(column, userId);
+    const [followers, following] = await Promise.all([countFollows('following_id'), countFollows('follower_id')]);
+
+    if (followers.error) throw fromPostgrestError(followers.error);
+    if (following.error) throw fromPostgrestError(following.error);
+    return { followers: followers.count ?? 0, following: following.count ?? 0 };
+  }
+
+  async getFollowers(userId: string, params?: FollowListParams): Promise<FollowPage> {
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+    let query = supabase
+      .from('follows')
+      .select(`id, created_at, users!follows_follower_id_fkey (${USER_CARD_COLUMNS})`)
+      .eq('following_id', userId);
+
+    if (params?.cursor) {
+      query = query.or(followCursorFilter(params.cursor));
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+    if (error) throw fromPostgrestError(error);
+
+    return toFollowPage(data, limit);
+  }
+
+  async getFollowing(userId: string, params?: FollowListParams): Promise<FollowPage> {
+    const limit = params?.limit || DEFAULT_PAGE_SIZE;
+    let query = supabase
+      .from('follows')
+      .select(`id, created_at, users!follows_following_id_fkey (${USER_CARD_COLUMNS})`)
+      .eq('follower_id', userId);
+
+    if (params?.cursor) {
+      query = query.or(followCursorFilter(params.cursor));
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+    if (error) throw fromPostgrestError(error);
+
+    return toFollowPage(data, limit);
+  }
+
+  // Realtime
+  subscribeToChanges(userId: string | null, listener: (change: DataChange) => void) {
+    // Row level security decides which posts reach this client
+    let channel = supabase
+      .channel(`data-changes:${userId ?? 'anonymous'}`)
+      .on<Tables<'posts'>>('postgres_changes', { event: '*', schema: 'public', table: 'posts' }, (payload) =>
+        listener(toDataChange('posts', payload))
+      );
+
+    if (userId) {
+      // Realtime can't filter deletes, so those are subscribed to unfiltered
+      channel = channel
+        .on<Tables<'wishlist_items'>>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'wishlist_items', filter: `user_id=eq.${userId}` },
+          (payload) => listener(toDataChange('wishlist_items', payload))
+        )
+        .on<Tables<'wishlist_items'>>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'wishlist_items' },
+          (payload) => listener(toDataChange('wishlist_items', payload))
+        )
+        .on<Tables<'follows'>>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'follows', filter: `follower_id=eq.${userId}` },
+          (payload) => listener(toDataChange('follows', payload))
+        )
+        // Someone following this user, for their follower count
+        .on<Tables<'follows'>>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'follows', filter: `following_id=eq.${userId}` },
+          (payload) => listener(toDataChange('follows', payload))
+        )
+        .on<Tables<'follows'>>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'follows' },
+          (payload) => listener(toDataChange('follows', payload))
+        );
+    }
+
+    channel.subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn('Realtime subscription failed:', status, error);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
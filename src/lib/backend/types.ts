@@ -0,0 +1,148 @@
+/**
+ * The data backend the app talks to. `apiClient` is one of these, chosen by `VITE_DATA_BACKEND`.
+ */
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import type { PostFilters, PostSort } from '@/lib/postFilters';
+import type { Trending } from '@/lib/trending';
+import type {
+  AuthResponse,
+  FollowCounts,
+  FollowCursor,
+  FollowPage,
+  Measurements,
+  MeasurementsInput,
+  NewPost,
+  Post,
+  PostCursor,
+  PostPage,
+  PostUpdate,
+  UserProfile,
+  UserSummary,
+  WishlistItem,
+} from '@/lib/api';
+
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'TOKEN_REFRESHED';
+
+export interface RegisterData {
+  name: string;
+  email: string;
+  password: string;
+  phone?: string;
+  gender: 'male' | 'female';
+}
+
+export interface AuthBackend {
+  register(userData: RegisterData): Promise<AuthResponse>;
+  login(credentials: { email: string; password: string }): Promise<AuthResponse>;
+  logout(): Promise<void>;
+  // Id of the signed-in user, or null when there is no session
+  getSessionUserId(): Promise<string | null>;
+  onAuthStateChange(listener: (event: AuthEvent, userId: string | null) => void): () => void;
+}
+
+export interface MyPostsParams {
+  limit?: number;
+  // Only published posts, or only drafts
+  published?: boolean;
+  // ISO timestamps bounding `publish_at`, inclusive and exclusive
+  publish_from?: string;
+  publish_to?: string;
+}
+
+export interface PostsBackend {
+  getPosts(params?: PostFilters & { sort?: PostSort; limit?: number; cursor?: PostCursor | null }): Promise<PostPage>;
+  getPost(id: string): Promise<{ post: Post }>;
+  // The live posts among `ids`, in no particular order
+  getPostsByIds(ids: string[]): Promise<{ posts: Post[] }>;
+  // The signed-in user's posts, scheduled ones and drafts included
+  getMyPosts(params?: MyPostsParams & { cursor?: PostCursor | null }): Promise<PostPage>;
+  // Published posts by the users the signed-in user follows, newest first
+  getFollowingFeed(params?: { limit?: number; cursor?: PostCursor | null }): Promise<PostPage>;
+  createPost(postData: NewPost): Promise<{ post: Post }>;
+  updatePost(id: string, postData: PostUpdate): Promise<{ post: Post }>;
+  deletePost(id: string): Promise<{ message: string }>;
+}
+
+export interface WishlistBackend {
+  getWishlist(): Promise<{ wishlistItems: WishlistItem[] }>;
+  // Ids of the posts in the signed-in user's wishlist, and the post of each wishlist item
+  getWishlistPostIds(): Promise<{ postIds: string[]; itemIds: Record<string, string> }>;
+  addToWishlist(postId: string): Promise<{ wishlistItem: WishlistItem }>;
+  removeFromWishlist(postId: string): Promise<{ message: string }>;
+}
+
+export interface UploadOptions {
+  // Called with the fraction of the file sent so far, from 0 to 1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface MediaBackend {
+  // Store a file in the signed-in user's media folder and return its public URL
+  uploadMedia(file: File, options?: UploadOptions): Promise<{ url: string }>;
+  // Delete uploaded files; URLs that don't point at our storage are ignored
+  deleteMedia(urls: string[]): Promise<void>;
+  // Store both sizes of a cropped avatar and return the large one's public URL. Saving it
+  // to the profile replaces, and deletes, the previous avatar.
+  uploadAvatar(images: { large: File; small: File }): Promise<{ url: string }>;
+}
+
+export interface UsersBackend {
+  getUsers(): Promise<{ users: UserSummary[] }>;
+  getUser(id: string): Promise<{ user: UserProfile }>;
+  updateUser(id: string, userData: TablesUpdate<'users'>): Promise<{ user: UserProfile }>;
+  // The signed-in user's body measurements, or null before they've saved any
+  getMyMeasurements(): Promise<{ measurements: Measurements | null }>;
+  saveMyMeasurements(measurements: MeasurementsInput): Promise<{ measurements: Measurements }>;
+}
+
+export interface FollowListParams {
+  limit?: number;
+  cursor?: FollowCursor | null;
+}
+
+export interface FollowsBackend {
+  // Ids of the users the signed-in user follows, and of the follow rows themselves
+  getFollowingIds(): Promise<{ userIds: string[]; followIds: string[] }>;
+  followUser(userId: string): Promise<{ message: string }>;
+  unfollowUser(userId: string): Promise<{ message: string }>;
+  getFollowCounts(userId: string): Promise<FollowCounts>;
+  // Newest follow first, a page at a time
+  getFollowers(userId: string, params?: FollowListParams): Promise<FollowPage>;
+  getFollowing(userId: string, params?: FollowListParams): Promise<FollowPage>;
+}
+
+export interface EngagementBackend {
+  // Count the signed-in user's view of a live post; repeat views on the same day are ignored
+  recordPostView(postId: string): Promise<void>;
+  // The top posts, categories and influencers this week, at most `limit` of each
+  getTrending(params?: { limit?: number }): Promise<Trending>;
+}
+
+export type RealtimeTable = 'posts' | 'wishlist_items' | 'follows';
+
+// A row change pushed by the backend. Supabase only sends the primary key of deleted rows
+// from tables with row level security, so `old` may hold nothing but `id`.
+export type DataChange = {
+  [T in RealtimeTable]: {
+    table: T;
+    eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+    new: Tables<T> | null;
+    old: Partial<Tables<T>> | null;
+  };
+}[RealtimeTable];
+
+export interface RealtimeBackend {
+  // Published posts, plus the given user's wishlist items and follows. Deleted wishlist items
+  // and follows can't be filtered by user, so listeners must check `old` themselves.
+  subscribeToChanges(userId: string | null, listener: (change: DataChange) => void): () => void;
+}
+
+export type Backend = AuthBackend &
+  PostsBackend &
+  WishlistBackend &
+  UsersBackend &
+  FollowsBackend &
+  EngagementBackend &
+  MediaBackend &
+  RealtimeBackend;
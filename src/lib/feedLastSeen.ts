@@ -0,0 +1,24 @@
+/**
+ * When each user last saw their following feed, kept per browser. Posts published after it
+ * are new to them; everything from it on has been seen.
+ */
+const lastSeenKey = (userId: string) => `followingFeedLastSeen:${userId}`;
+
+export const readFeedLastSeen = (userId: string): string | null => {
+  try {
+    return localStorage.getItem(lastSeenKey(userId));
+  } catch {
+    return null;
+  }
+};
+
+// Only ever moves forward, so an older tab can't mark posts as unseen again
+export const saveFeedLastSeen = (userId: string, seenAt: string) => {
+  const previous = readFeedLastSeen(userId);
+  if (previous && previous >= seenAt) return;
+  try {
+    localStorage.setItem(lastSeenKey(userId), seenAt);
+  } catch {
+    // Storage is full or blocked; the feed just won't remember this visit
+  }
+};
@@ -0,0 +1,72 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ */
+
+const DB_NAME = 'influstyle';
+const DB_VERSION = 2;
+
+// Object stores and their options; bump DB_VERSION when adding one
+const STORES = {
+  outbox: { keyPath: 'id', autoIncrement: true },
+  'query-cache': { keyPath: 'queryHash' },
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, options]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, options);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a tab running a newer build upgrade the database; the next call reopens it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // A tab still on an older build holds the database open, so the upgrade would wait
+      // until it closes; fail now and let callers go without IndexedDB instead
+      request.onblocked = () => reject(new Error('IndexedDB is held open by another tab'));
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a single request against a store and resolve once its transaction commits
+ */
+export const idbRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
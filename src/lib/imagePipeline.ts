@@ -0,0 +1,166 @@
+/**
+ * Prepares photos in the browser before they're uploaded: turned upright, stripped of
+ * metadata such as GPS location, scaled down and re-encoded, with a thumbnail and a
+ * blurhash placeholder to show while the full image loads.
+ */
+import { encode } from 'blurhash';
+
+const MB = 1024 * 1024;
+
+// Longest edge of the uploaded image and of its thumbnail
+const MAX_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 480;
+// Blurhash only needs a handful of pixels
+const BLURHASH_DIMENSION = 32;
+
+// Qualities tried in turn until the image fits the target size
+const QUALITY_STEPS = [0.82, 0.72, 0.62, 0.5];
+const TARGET_BYTES = 1.5 * MB;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Animated GIFs would lose their animation on a canvas, so they're uploaded as is
+const PROCESSED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export interface ProcessedImage {
+  file: File;
+  thumbnail: File;
+  blurhash: string;
+  width: number;
+  height: number;
+}
+
+export const canProcessImage = (file: File) => PROCESSED_TYPES.includes(file.type);
+
+let webpSupported: boolean | undefined;
+
+// Browsers that can't encode a type fall back to PNG, so check what a canvas actually writes
+const supportsWebp = () => {
+  if (webpSupported === undefined) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupported;
+};
+
+const scaledSize = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const drawScaled = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  maxDimension: number,
+  background?: string
+) => {
+  const { width, height } = scaledSize(sourceWidth, sourceHeight, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), type, quality)
+  );
+
+const outputType = () => (supportsWebp() ? 'image/webp' : 'image/jpeg');
+
+// JPEG has no transparency, which would otherwise come out black
+const backgroundFor = (type: string) => (type === 'image/jpeg' ? '#ffffff' : undefined);
+
+const renamed = (name: string, type: string, suffix = '') =>
+  `${name.replace(/\.[^.]+$/, '')}${suffix}.${type === 'image/webp' ? 'webp' : 'jpg'}`;
+
+/**
+ * Encode whatever `draw` paints onto a square canvas, in the same format as other uploads
+ */
+export const renderSquareImage = async (
+  size: number,
+  name: string,
+  draw: (context: CanvasRenderingContext2D) => void
+): Promise<File> => {
+  const type = outputType();
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const context = canvas.getContext('2d');
+  const background = backgroundFor(type);
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, size, size);
+  }
+  context.imageSmoothingQuality = 'high';
+  draw(context);
+  return new File([await toBlob(canvas, type, QUALITY_STEPS[0])], renamed(name, type), { type });
+};
+
+/**
+ * A small still of an image or video frame, with the blurhash to show while it loads
+ */
+export const encodeStill = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  name: string,
+  maxDimension = THUMBNAIL_DIMENSION
+): Promise<{ file: File; blurhash: string }> => {
+  const type = outputType();
+  const canvas = drawScaled(source, sourceWidth, sourceHeight, maxDimension, backgroundFor(type));
+  const blob = await toBlob(canvas, type, THUMBNAIL_QUALITY);
+
+  const tiny = drawScaled(source, sourceWidth, sourceHeight, BLURHASH_DIMENSION, '#ffffff');
+  const pixels = tiny.getContext('2d').getImageData(0, 0, tiny.width, tiny.height);
+
+  return {
+    file: new File([blob], renamed(name, type, '-thumb'), { type }),
+    blurhash: encode(pixels.data, tiny.width, tiny.height, 4, 3),
+  };
+};
+
+/**
+ * Re-encode an image for upload. Drawing it to a canvas applies its EXIF orientation and
+ * leaves all of its metadata behind.
+ */
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`${file.name} couldn't be read as an image`);
+  }
+
+  try {
+    const type = outputType();
+    const canvas = drawScaled(image, image.width, image.height, MAX_DIMENSION, backgroundFor(type));
+    let blob: Blob;
+    for (const quality of QUALITY_STEPS) {
+      blob = await toBlob(canvas, type, quality);
+      if (blob.size <= TARGET_BYTES) break;
+    }
+
+    const still = await encodeStill(image, image.width, image.height, file.name);
+
+    return {
+      file: new File([blob], renamed(file.name, type), { type }),
+      thumbnail: still.file,
+      blurhash: still.blurhash,
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,35 @@
+/**
+ * Follows made before they were stored in the database, kept in localStorage as the numeric
+ * ids the static influencer pages used. They're moved to the signed-in account once.
+ */
+import type { UserSummary } from '@/lib/api';
+import { DEMO_INFLUENCERS } from '@/lib/backend/fixtures';
+
+const LEGACY_FOLLOWS_KEY = 'followedInfluencers';
+
+export const readLegacyFollows = (): (number | string)[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LEGACY_FOLLOWS_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved.filter((id) => typeof id === 'number' || typeof id === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearLegacyFollows = () => {
+  localStorage.removeItem(LEGACY_FOLLOWS_KEY);
+};
+
+export const isLegacyInfluencerId = (id: number | string) => /^\d+$/.test(String(id));
+
+/**
+ * The account behind an id from the static pages. Those numbered the demo influencers,
+ * whose accounts are found by name; anything else is already an account id.
+ */
+export const resolveLegacyInfluencerId = (id: number | string, influencers: UserSummary[]) => {
+  if (!isLegacyInfluencerId(id)) return String(id);
+  const demo = DEMO_INFLUENCERS.find((influencer) => influencer.id === Number(id));
+  return demo ? influencers.find((influencer) => influencer.name === demo.name)?.id : undefined;
+};
@@ -0,0 +1,82 @@
+/**
+ * Media attached to posts: which files can be uploaded and how their URLs are recognized.
+ */
+import type { Json } from '@/integrations/supabase/types';
+
+// Public Supabase Storage bucket holding uploads, one folder per author
+export const MEDIA_BUCKET = 'post-media';
+
+const MB = 1024 * 1024;
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+export const MAX_IMAGE_BYTES = 10 * MB;
+// Also the bucket's own limit, which applies to every file
+export const MAX_VIDEO_BYTES = 100 * MB;
+export const MAX_VIDEO_SECONDS = 60;
+
+// For the `accept` attribute of file inputs
+export const ACCEPTED_MEDIA_TYPES = [...IMAGE_TYPES, ...VIDEO_TYPES].join(',');
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+export const mediaExtension = (file: File) => EXTENSIONS[file.type] ?? 'bin';
+
+/**
+ * Why a file can't be uploaded, or undefined when it can
+ */
+export const validateMediaFile = (file: File): string | undefined => {
+  const isImage = IMAGE_TYPES.includes(file.type);
+  if (!isImage && !VIDEO_TYPES.includes(file.type)) {
+    return `${file.name} isn't a supported image (JPEG, PNG, WebP, GIF) or video (MP4, WebM, MOV)`;
+  }
+  const maxBytes = isImage ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+  if (file.size > maxBytes) {
+    return `${file.name} is larger than ${maxBytes / MB} MB`;
+  }
+  return undefined;
+};
+
+// Only for media with no content type on record, such as the sample images
+const isVideoUrl = (url: string) =>
+  /\.(mp4|webm|ogg|mov)(\?|$)/i.test(url) || url.startsWith('data:video/');
+
+// Renditions made when a file is uploaded, stored in `posts.media_meta` under its URL.
+// For videos the thumbnail is the poster frame. A type rather than an interface so it
+// stays assignable to the column's `Json`.
+export type MediaMeta = {
+  thumbnail_url: string;
+  blurhash: string;
+  width: number;
+  height: number;
+  // Missing on images uploaded before videos were supported
+  content_type?: string;
+  // Videos only, both in seconds
+  duration?: number;
+  poster_time?: number;
+};
+
+export type MediaMetaMap = Record<string, MediaMeta>;
+
+export const readMediaMeta = (json: Json | null | undefined): MediaMetaMap =>
+  json && typeof json === 'object' && !Array.isArray(json) ? (json as unknown as MediaMetaMap) : {};
+
+// Only the entries for media still in `urls`
+export const pickMediaMeta = (meta: MediaMetaMap, urls: string[]): MediaMetaMap =>
+  Object.fromEntries(urls.filter((url) => meta[url]).map((url) => [url, meta[url]]));
+
+export const isVideoMedia = (url: string, meta?: MediaMeta) =>
+  meta?.content_type ? meta.content_type.startsWith('video/') : isVideoUrl(url);
+
+// Every stored file behind these media URLs, thumbnails included
+export const mediaFiles = (urls: string[], meta: MediaMetaMap) =>
+  urls.flatMap((url) => (meta[url] ? [url, meta[url].thumbnail_url] : [url]));
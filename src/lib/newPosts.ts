@@ -0,0 +1,40 @@
+/**
+ * Posts by other people that arrived over realtime while a feed was open. They are held
+ * here, behind a "new posts" banner, instead of being spliced into the feed under the reader.
+ */
+import type { Tables } from '@/integrations/supabase/types';
+
+// Enough to count; the feed refetches the posts themselves when they are revealed
+const MAX_NEW_POSTS = 100;
+
+let newPosts: Tables<'posts'>[] = [];
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeToNewPosts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getNewPosts = () => newPosts;
+
+export const addNewPost = (post: Tables<'posts'>) => {
+  newPosts = [post, ...newPosts.filter((candidate) => candidate.id !== post.id)].slice(0, MAX_NEW_POSTS);
+  notify();
+};
+
+export const removeNewPost = (postId: string) => {
+  if (!newPosts.some((post) => post.id === postId)) return;
+  newPosts = newPosts.filter((post) => post.id !== postId);
+  notify();
+};
+
+export const clearNewPosts = () => {
+  if (newPosts.length === 0) return;
+  newPosts = [];
+  notify();
+};
@@ -0,0 +1,198 @@
+/**
+ * Persistent outbox for mutations made while offline. Entries are stored in IndexedDB
+ * and replayed in the order they were recorded once the network is back.
+ */
+import { apiClient, type NewPost } from '@/lib/api';
+import { toApiError } from '@/lib/apiError';
+import { idbRequest } from '@/lib/idb';
+
+export type OutboxMutation =
+  | { kind: 'wishlist.add'; payload: { postId: string } }
+  | { kind: 'wishlist.remove'; payload: { postId: string } }
+  | { kind: 'post.create'; payload: NewPost }
+  | { kind: 'post.delete'; payload: { postId: string } };
+
+export type OutboxEntry = OutboxMutation & {
+  id: number;
+  userId: string;
+  createdAt: string;
+};
+
+// A queued mutation may cancel out an earlier queued one, leaving no entry behind
+export type QueuedResult<T> = { queued: false; result: T } | { queued: true; entry: OutboxEntry | null };
+
+export interface ReplaySummary {
+  synced: OutboxEntry[];
+  dropped: { entry: OutboxEntry; reason: string }[];
+  remaining: number;
+}
+
+// Postgres error codes returned by PostgREST
+const FOREIGN_KEY_VIOLATION = '23503';
+const UNIQUE_VIOLATION = '23505';
+
+// Prefix for ids of posts that only exist in the outbox so far
+export const PENDING_POST_PREFIX = 'pending-';
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeToOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await idbRequest<OutboxEntry[]>('outbox', 'readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.id - b.id);
+};
+
+const OPPOSITE_KINDS: Partial<Record<OutboxMutation['kind'], OutboxMutation['kind']>> = {
+  'wishlist.add': 'wishlist.remove',
+  'wishlist.remove': 'wishlist.add',
+};
+
+const isPendingPost = (postId: string) => postId.startsWith(PENDING_POST_PREFIX);
+
+export const pendingPostId = (entry: OutboxEntry) => `${PENDING_POST_PREFIX}${entry.id}`;
+
+/**
+ * Record a mutation for later. Un-wishlisting a post whose add is still queued (or the
+ * reverse), and deleting a post that was never created, drop the earlier entry instead.
+ */
+export const enqueueMutation = async (userId: string, mutation: OutboxMutation): Promise<OutboxEntry | null> => {
+  if (mutation.kind === 'post.delete' && isPendingPost(mutation.payload.postId)) {
+    await removeOutboxEntry(Number(mutation.payload.postId.slice(PENDING_POST_PREFIX.length)));
+    return null;
+  }
+
+  const opposite = OPPOSITE_KINDS[mutation.kind];
+  if (opposite && 'postId' in mutation.payload) {
+    const { postId } = mutation.payload;
+    const cancelled = (await getOutboxEntries()).find((entry) =>
+      entry.userId === userId &&
+      entry.kind === opposite &&
+      'postId' in entry.payload &&
+      entry.payload.postId === postId
+    );
+    if (cancelled) {
+      await removeOutboxEntry(cancelled.id);
+      return null;
+    }
+  }
+
+  const record = { ...mutation, userId, createdAt: new Date().toISOString() };
+  const id = await idbRequest('outbox', 'readwrite', (store) => store.add(record));
+  notify();
+  return { ...record, id: id as number };
+};
+
+export const removeOutboxEntry = async (id: number) => {
+  await idbRequest('outbox', 'readwrite', (store) => store.delete(id));
+  notify();
+};
+
+/**
+ * Whether an error means the request never reached the server
+ */
+const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return toApiError(error).kind === 'network';
+};
+
+/**
+ * Run a mutation now, or record it in the outbox when the device is offline. While
+ * earlier mutations are still queued new ones join the queue so they can't overtake them.
+ */
+export const runOrQueue = async <T>(
+  userId: string | undefined,
+  mutation: OutboxMutation,
+  run: () => Promise<T>
+): Promise<QueuedResult<T>> => {
+  const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  const hasQueued = !!userId && (await getOutboxEntries().catch(() => [])).some((entry) => entry.userId === userId);
+  if (!userId || (!offline && !hasQueued)) {
+    try {
+      return { queued: false, result: await run() };
+    } catch (error) {
+      if (!userId || !isNetworkError(error)) throw error;
+    }
+  }
+  return { queued: true, entry: await enqueueMutation(userId, mutation) };
+};
+
+const execute = (mutation: OutboxMutation) => {
+  switch (mutation.kind) {
+    case 'wishlist.add':
+      return apiClient.addToWishlist(mutation.payload.postId);
+    case 'wishlist.remove':
+      return apiClient.removeFromWishlist(mutation.payload.postId);
+    case 'post.create':
+      return apiClient.createPost(mutation.payload);
+    case 'post.delete':
+      return apiClient.deletePost(mutation.payload.postId);
+  }
+};
+
+// Decide what a failed replay means: keep waiting, treat as done, or give up on the entry.
+// Outages and expired sessions pass, so the entry waits for them rather than being lost.
+const resolveFailure = (entry: OutboxEntry, error: unknown): 'retry' | 'synced' | string => {
+  const apiError = toApiError(error);
+  if (isNetworkError(apiError) || apiError.isTransient || apiError.kind === 'auth') return 'retry';
+
+  if (apiError.kind === 'conflict' && entry.kind === 'wishlist.add') {
+    // Already wishlisted from another device or tab
+    if (apiError.code === UNIQUE_VIOLATION) return 'synced';
+    if (apiError.code === FOREIGN_KEY_VIOLATION) return 'This post was removed before your wishlist change could sync';
+  }
+  // Removing something that is already gone leaves the server in the wanted state
+  if (apiError.kind === 'not-found' && (entry.kind === 'wishlist.remove' || entry.kind === 'post.delete')) {
+    return 'synced';
+  }
+
+  return apiError.message;
+};
+
+let replaying: Promise<ReplaySummary> | null = null;
+
+/**
+ * Replay the user's queued mutations in order, stopping at the first one that still
+ * can't reach the server so later entries never overtake it
+ */
+export const replayOutbox = (userId: string): Promise<ReplaySummary> => {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    const summary: ReplaySummary = { synced: [], dropped: [], remaining: 0 };
+    const entries = (await getOutboxEntries()).filter((entry) => entry.userId === userId);
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      try {
+        await execute(entry);
+        summary.synced.push(entry);
+      } catch (error) {
+        const resolution = resolveFailure(entry, error);
+        if (resolution === 'retry') {
+          summary.remaining = entries.length - i;
+          break;
+        }
+        if (resolution === 'synced') {
+          summary.synced.push(entry);
+        } else {
+          summary.dropped.push({ entry, reason: resolution });
+        }
+      }
+      await removeOutboxEntry(entry.id);
+    }
+
+    return summary;
+  })().finally(() => {
+    replaying = null;
+  });
+
+  return replaying;
+};
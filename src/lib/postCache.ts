@@ -0,0 +1,57 @@
+/**
+ * Helpers for rewriting posts inside cached feeds, whether a feed is a single page
+ * (`usePosts`) or infinite (`useInfinitePosts`, `useMyPosts`).
+ */
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import type { Post, PostPage } from '@/lib/api';
+
+export type CachedPosts = PostPage | InfiniteData<PostPage>;
+
+// Rewrite one post in every cached feed under `queryKey`; returning null drops it
+export const updateCachedPost = (
+  queryClient: QueryClient,
+  queryKey: unknown[],
+  postId: string,
+  update: (post: Post) => Post | null
+) => {
+  const updatePage = (page: PostPage): PostPage =>
+    page.posts.some((post) => post.id === postId)
+      ? {
+          ...page,
+          posts: page.posts.flatMap((post) => {
+            if (post.id !== postId) return [post];
+            const updated = update(post);
+            return updated ? [updated] : [];
+          }),
+        }
+      : page;
+
+  queryClient.setQueriesData<CachedPosts>({ queryKey }, (data) => {
+    if (!data) return data;
+    if ('pages' in data) return { ...data, pages: data.pages.map(updatePage) };
+    return Array.isArray(data.posts) ? updatePage(data) : data;
+  });
+};
+
+// The post as cached in a feed, the author's own lists or its details page, if anywhere
+export const findCachedPost = (queryClient: QueryClient, postId: string): Post | undefined => {
+  const details = queryClient.getQueryData<{ post: Post }>(['post', postId]);
+  if (details) return details.post;
+  const feeds = [
+    ...queryClient.getQueriesData<CachedPosts>({ queryKey: ['posts'] }),
+    ...queryClient.getQueriesData<CachedPosts>({ queryKey: ['my-posts'] }),
+  ];
+  for (const [, data] of feeds) {
+    const pages: PostPage[] = !data ? [] : 'pages' in data ? data.pages : [data];
+    const post = pages.flatMap((page) => page.posts ?? []).find((candidate) => candidate.id === postId);
+    if (post) return post;
+  }
+  return undefined;
+};
+
+// Whether any cached public feed currently holds the post
+export const isPostCached = (queryClient: QueryClient, postId: string) =>
+  queryClient.getQueriesData<CachedPosts>({ queryKey: ['posts'] }).some(([, data]) => {
+    const pages: PostPage[] = !data ? [] : 'pages' in data ? data.pages : [data];
+    return pages.some((page) => page.posts?.some((post) => post.id === postId));
+  });
@@ -0,0 +1,32 @@
+/**
+ * Draft and scheduled posts: what a post needs before it can be published, and when it goes live.
+ */
+import type { NewPost } from '@/lib/api';
+
+type PublishablePost = Pick<NewPost, 'name' | 'description' | 'price_min' | 'product_link' | 'media_urls'>;
+
+/**
+ * Why a post can't be published yet, or undefined when it's complete. Drafts are saved
+ * with only a name, so everything else is checked here rather than by the database.
+ */
+export const getPublishError = (post: PublishablePost): string | undefined => {
+  if (!post.name.trim()) return 'Product name is required';
+  if (!post.description.trim()) return 'Description is required';
+  if (post.price_min === null || post.price_min === undefined) return 'Price is required';
+  if (!post.product_link.trim()) return 'Product link is required';
+  if (!post.media_urls?.length) return 'At least one image or video is required';
+  return undefined;
+};
+
+export type PostStatus = 'draft' | 'scheduled' | 'published';
+
+export const getPostStatus = (post: Pick<NewPost, 'is_published' | 'publish_at'>, now = new Date()): PostStatus => {
+  if (post.is_published === false) return 'draft';
+  return post.publish_at && new Date(post.publish_at) > now ? 'scheduled' : 'published';
+};
+
+/**
+ * When a draft goes live once published: its scheduled time if that's still ahead, otherwise now
+ */
+export const publishTimeFor = (post: Pick<NewPost, 'publish_at'>, now = new Date()): string =>
+  post.publish_at && new Date(post.publish_at) > now ? post.publish_at : now.toISOString();
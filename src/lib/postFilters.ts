@@ -0,0 +1,196 @@
+/**
+ * Filter model for the post feeds and its URL search param (de)serialization.
+ */
+import { addDays, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  isBodyType,
+  isColorSeason,
+  isGenderFit,
+  isOccasion,
+  isStyleTag,
+  type BodyType,
+  type ColorSeason,
+  type GenderFit,
+  type Occasion,
+  type StyleTag,
+} from "@/lib/styleAttributes";
+
+export const POST_CATEGORIES = [
+  "Summer Trends",
+  "Home",
+  "Accessories",
+  "Makeup",
+  "Skincare",
+  "Fashion",
+] as const;
+
+export type PostCategory = (typeof POST_CATEGORIES)[number];
+
+export type PostMediaType = "image" | "video";
+
+export interface PostFilters {
+  category?: string;
+  price_min?: number;
+  price_max?: number;
+  type?: PostMediaType;
+  influencer_id?: string;
+  // Inclusive calendar dates, formatted yyyy-MM-dd
+  date_from?: string;
+  date_to?: string;
+  // Posts tagged as suiting this; untagged posts don't match
+  body_type?: BodyType;
+  style_tag?: StyleTag;
+  color_season?: ColorSeason;
+  occasion?: Occasion;
+  // Unisex posts fit either
+  gender_fit?: GenderFit;
+}
+
+export const POST_SORTS = ["newest", "most_wishlisted", "price_asc", "price_desc"] as const;
+
+export type PostSort = (typeof POST_SORTS)[number];
+
+export const DEFAULT_POST_SORT: PostSort = "newest";
+
+export const POST_SORT_LABELS: Record<PostSort, string> = {
+  newest: "Newest",
+  most_wishlisted: "Most wishlisted",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+};
+
+const SORT_PARAM = "sort";
+
+// Filter key -> URL search param name
+const PARAM_NAMES: Record<keyof PostFilters, string> = {
+  category: "category",
+  price_min: "min_price",
+  price_max: "max_price",
+  type: "type",
+  influencer_id: "influencer",
+  date_from: "from",
+  date_to: "to",
+  body_type: "body",
+  style_tag: "style",
+  color_season: "season",
+  occasion: "occasion",
+  gender_fit: "fit",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseAmount = (value: string | null) => {
+  if (value === null || value.trim() === "") return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const parseDate = (value: string | null) =>
+  value && DATE_PATTERN.test(value) ? value : undefined;
+
+const parseOption = <T extends string>(value: string | null, isOption: (value: unknown) => value is T) =>
+  isOption(value) ? value : undefined;
+
+/**
+ * Read filters from URL search params, dropping anything malformed
+ */
+export const parsePostFilters = (params: URLSearchParams): PostFilters => {
+  const type = params.get(PARAM_NAMES.type);
+  const filters: PostFilters = {
+    category: params.get(PARAM_NAMES.category) || undefined,
+    price_min: parseAmount(params.get(PARAM_NAMES.price_min)),
+    price_max: parseAmount(params.get(PARAM_NAMES.price_max)),
+    type: type === "image" || type === "video" ? type : undefined,
+    influencer_id: params.get(PARAM_NAMES.influencer_id) || undefined,
+    date_from: parseDate(params.get(PARAM_NAMES.date_from)),
+    date_to: parseDate(params.get(PARAM_NAMES.date_to)),
+    body_type: parseOption(params.get(PARAM_NAMES.body_type), isBodyType),
+    style_tag: parseOption(params.get(PARAM_NAMES.style_tag), isStyleTag),
+    color_season: parseOption(params.get(PARAM_NAMES.color_season), isColorSeason),
+    occasion: parseOption(params.get(PARAM_NAMES.occasion), isOccasion),
+    gender_fit: parseOption(params.get(PARAM_NAMES.gender_fit), isGenderFit),
+  };
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as PostFilters;
+};
+
+/**
+ * Write filters into URL search params, preserving params that aren't filters
+ */
+export const serializePostFilters = (
+  filters: PostFilters,
+  base: URLSearchParams = new URLSearchParams()
+): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  (Object.keys(PARAM_NAMES) as (keyof PostFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value === undefined || value === "") {
+      params.delete(PARAM_NAMES[key]);
+    } else {
+      params.set(PARAM_NAMES[key], String(value));
+    }
+  });
+  return params;
+};
+
+/**
+ * Read the feed order from URL search params, falling back to newest first
+ */
+export const parsePostSort = (params: URLSearchParams): PostSort => {
+  const sort = params.get(SORT_PARAM);
+  return POST_SORTS.find((candidate) => candidate === sort) ?? DEFAULT_POST_SORT;
+};
+
+/**
+ * Write the feed order into URL search params, leaving the default out
+ */
+export const serializePostSort = (
+  sort: PostSort,
+  base: URLSearchParams = new URLSearchParams()
+): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  if (sort === DEFAULT_POST_SORT) params.delete(SORT_PARAM);
+  else params.set(SORT_PARAM, sort);
+  return params;
+};
+
+/**
+ * Number of filters currently narrowing the feed
+ */
+export const countActiveFilters = (filters: PostFilters): number => {
+  const { price_min, price_max, date_from, date_to, ...rest } = filters;
+  const hasPrice = price_min !== undefined || price_max !== undefined;
+  const hasDates = !!date_from || !!date_to;
+  return Object.values(rest).filter(Boolean).length + Number(hasPrice) + Number(hasDates);
+};
+
+type FilterablePost = Pick<
+  Tables<"posts">,
+  "author_id" | "category" | "type" | "price_min" | "price_max" | "publish_at"
+> &
+  Partial<Pick<Tables<"posts">, "body_types" | "style_tags" | "color_seasons" | "occasions" | "gender_fit">>;
+
+/**
+ * Whether a post belongs in a feed with these filters, mirroring the server-side query
+ */
+export const matchesPostFilters = (post: FilterablePost, filters: PostFilters): boolean => {
+  const publishedAt = post.publish_at;
+  return (
+    (!filters.influencer_id || post.author_id === filters.influencer_id) &&
+    (!filters.category || post.category === filters.category) &&
+    (!filters.type || post.type === filters.type) &&
+    // A post matches a budget when its price range overlaps it
+    (filters.price_min === undefined || (post.price_max ?? -Infinity) >= filters.price_min) &&
+    (filters.price_max === undefined || (post.price_min ?? Infinity) <= filters.price_max) &&
+    (!filters.date_from || publishedAt >= parseISO(filters.date_from).toISOString()) &&
+    (!filters.date_to || publishedAt < addDays(parseISO(filters.date_to), 1).toISOString()) &&
+    (!filters.body_type || !!post.body_types?.includes(filters.body_type)) &&
+    (!filters.style_tag || !!post.style_tags?.includes(filters.style_tag)) &&
+    (!filters.color_season || !!post.color_seasons?.includes(filters.color_season)) &&
+    (!filters.occasion || !!post.occasions?.includes(filters.occasion)) &&
+    (!filters.gender_fit || post.gender_fit === filters.gender_fit || post.gender_fit === "unisex")
+  );
+};
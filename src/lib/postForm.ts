@@ -0,0 +1,253 @@
+/**
+ * Form state shared by the new post form and the edit dialog, and its conversion to and
+ * from stored posts.
+ */
+import { format } from 'date-fns';
+import type { NewPost, Post, PostProductInput, PostUpdate } from '@/lib/api';
+import { pickMediaMeta, readMediaMeta, type MediaMetaMap } from '@/lib/media';
+import { getPublishError } from '@/lib/postDrafts';
+import {
+  emptyPriceDraft,
+  formatPostPrice,
+  formatPrice,
+  priceDraftFromPost,
+  validatePriceDraft,
+  type PriceDraft,
+} from '@/lib/price';
+import {
+  STYLE_ATTRIBUTE_LISTS,
+  emptyStyleAttributes,
+  readStyleAttributes,
+  styleAttributeLabels,
+  validateStyleAttributes,
+  type StyleAttributes,
+} from '@/lib/styleAttributes';
+
+// A product pinned on one of the post's photos, as the tag editor holds it
+export interface ProductTagDraft {
+  // Identifies the tag and its pin before it has an id
+  key: string;
+  title: string;
+  image_url: string;
+  link: string;
+  price: string;
+  // The photo the pin sits on. Tags follow their photo when media is reordered, and go
+  // with it when it's removed.
+  media_url: string;
+  // Percent of the photo's width and height
+  position_x: number;
+  position_y: number;
+}
+
+export interface PostFormData {
+  name: string;
+  description: string;
+  price: PriceDraft;
+  product_link: string;
+  media_urls: string[];
+  media_meta: MediaMetaMap;
+  products: ProductTagDraft[];
+  type: 'image' | 'video';
+  category: string;
+  style: StyleAttributes;
+  // Local date and time from the schedule input, or "" to publish right away
+  publish_at: string;
+}
+
+// The post columns the form edits
+export type PostFields = Omit<NewPost, 'is_published'>;
+
+export const emptyPostFormData = (): PostFormData => ({
+  name: '',
+  description: '',
+  price: emptyPriceDraft(),
+  product_link: '',
+  media_urls: [],
+  media_meta: {},
+  products: [],
+  type: 'image',
+  category: '',
+  style: emptyStyleAttributes(),
+  publish_at: '',
+});
+
+export const isPostFormEmpty = (formData: PostFormData) =>
+  !formData.name.trim() &&
+  !formData.description.trim() &&
+  !formData.price.min &&
+  !formData.price.max &&
+  !formData.product_link.trim() &&
+  formData.media_urls.length === 0 &&
+  !formData.category &&
+  !STYLE_ATTRIBUTE_LISTS.some(({ key }) => formData.style[key].length > 0) &&
+  !formData.style.gender_fit &&
+  !formData.publish_at;
+
+export const postFormDataFromPost = (post: Post): PostFormData => ({
+  name: post.name,
+  description: post.description,
+  price: priceDraftFromPost(post),
+  product_link: post.product_link,
+  media_urls: post.media_urls ?? [],
+  media_meta: readMediaMeta(post.media_meta),
+  products: (post.post_products ?? []).map((product) => ({
+    key: product.id,
+    title: product.title,
+    image_url: product.image_url ?? '',
+    link: product.link,
+    price: product.price === null ? '' : String(product.price),
+    media_url: post.media_urls?.[product.media_index] ?? '',
+    position_x: product.position_x,
+    position_y: product.position_y,
+  })),
+  type: post.type ?? 'image',
+  category: post.category ?? '',
+  style: readStyleAttributes(post),
+  publish_at: post.publish_at ? format(new Date(post.publish_at), "yyyy-MM-dd'T'HH:mm") : '',
+});
+
+const validateProductTags = (
+  formData: PostFormData
+): { products: PostProductInput[] } | { error: string } => {
+  const products: PostProductInput[] = [];
+  for (const tag of formData.products) {
+    const mediaIndex = formData.media_urls.indexOf(tag.media_url);
+    if (mediaIndex === -1) continue;
+    // Numbered as on their pins, which skip tags on removed photos
+    const number = products.length + 1;
+    if (!tag.title.trim()) return { error: `Tagged product ${number} needs a name` };
+    if (!tag.link.trim()) return { error: `Tagged product ${number} needs a link` };
+    const price = Number(tag.price);
+    if (tag.price.trim() && (!Number.isFinite(price) || price <= 0)) {
+      return { error: `Tagged product ${number} has an invalid price` };
+    }
+    products.push({
+      title: tag.title.trim(),
+      image_url: tag.image_url.trim() || null,
+      link: tag.link.trim(),
+      price: tag.price.trim() ? price : null,
+      // Tags are priced in the post's currency
+      price_currency: formData.price.currency,
+      media_index: mediaIndex,
+      position_x: tag.position_x,
+      position_y: tag.position_y,
+    });
+  }
+  return { products };
+};
+
+/**
+ * Turn form state into post columns. Drafts only need a name; posts being published must
+ * be complete.
+ */
+export const validatePostForm = (
+  formData: PostFormData,
+  publish: boolean
+): { fields: PostFields } | { error: string } => {
+  if (!formData.name.trim()) return { error: 'Product name is required' };
+
+  const priceResult = validatePriceDraft(formData.price);
+  const price = 'price' in priceResult ? priceResult.price : null;
+
+  // Tags are saved with drafts too, so they must always be complete
+  const productsResult = validateProductTags(formData);
+  if ('error' in productsResult) return { error: productsResult.error };
+
+  const styleResult = validateStyleAttributes(formData.style);
+  if ('error' in styleResult) return { error: styleResult.error };
+
+  if (publish) {
+    if ('error' in priceResult) return { error: priceResult.error };
+    const publishError = getPublishError({ ...formData, price_min: price.min });
+    if (publishError) return { error: publishError };
+  }
+
+  return {
+    fields: {
+      name: formData.name,
+      description: formData.description,
+      // Formatted text is still written for readers of the legacy `price` column
+      price: price ? formatPrice(price) : '',
+      price_min: price?.min ?? null,
+      price_max: price?.max ?? null,
+      price_currency: price?.currency ?? formData.price.currency,
+      product_link: formData.product_link,
+      media_urls: formData.media_urls,
+      media_meta: pickMediaMeta(formData.media_meta ?? {}, formData.media_urls),
+      products: productsResult.products,
+      type: formData.type,
+      category: formData.category || null,
+      ...styleResult.attributes,
+      publish_at: formData.publish_at ? new Date(formData.publish_at).toISOString() : undefined,
+    },
+  };
+};
+
+export interface PostFieldChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const DIFFED_FIELDS: { label: string; keys: (keyof PostFields)[]; display: (fields: PostFields) => string }[] = [
+  { label: 'Product name', keys: ['name'], display: (fields) => fields.name },
+  { label: 'Description', keys: ['description'], display: (fields) => fields.description },
+  {
+    label: 'Price',
+    keys: ['price', 'price_min', 'price_max', 'price_currency'],
+    display: (fields) => formatPostPrice(fields) || 'None',
+  },
+  { label: 'Product link', keys: ['product_link'], display: (fields) => fields.product_link },
+  { label: 'Category', keys: ['category'], display: (fields) => fields.category || 'None' },
+  {
+    label: 'Style tags',
+    keys: ['body_types', 'style_tags', 'color_seasons', 'occasions', 'gender_fit'],
+    display: (fields) => styleAttributeLabels(readStyleAttributes(fields)).join(', ') || 'None',
+  },
+  { label: 'Content type', keys: ['type'], display: (fields) => (fields.type === 'video' ? 'Video' : 'Image') },
+  {
+    label: 'Media',
+    keys: ['media_urls', 'media_meta'],
+    display: (fields) => {
+      const count = fields.media_urls?.length ?? 0;
+      return `${count} ${count === 1 ? 'file' : 'files'}`;
+    },
+  },
+  {
+    label: 'Tagged products',
+    keys: ['products'],
+    display: (fields) => {
+      const count = fields.products?.length ?? 0;
+      return count === 0 ? 'None' : `${count} ${count === 1 ? 'product' : 'products'}`;
+    },
+  },
+  {
+    label: 'Publish time',
+    keys: ['publish_at'],
+    display: (fields) => (fields.publish_at ? new Date(fields.publish_at).toLocaleString() : 'Not set'),
+  },
+];
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * The fields that differ between two versions of a post, for display, and the update that
+ * writes only those. Both sides should come from `validatePostForm` so unchanged values
+ * compare equal.
+ */
+export const diffPostFields = (before: PostFields, after: PostFields) => {
+  const changed = DIFFED_FIELDS.filter(({ keys }) =>
+    // An empty schedule input leaves the publish time as it was
+    keys.some((key) => !(key === 'publish_at' && !after.publish_at) && !isSameValue(before[key], after[key]))
+  );
+
+  const update: PostUpdate = {};
+  changed.forEach(({ keys }) => keys.forEach((key) => Object.assign(update, { [key]: after[key] })));
+
+  const changes: PostFieldChange[] = changed.map(({ label, display }) => ({
+    label,
+    before: display(before),
+    after: display(after),
+  }));
+  return { changes, update };
+};
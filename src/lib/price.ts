@@ -0,0 +1,162 @@
+/**
+ * Structured prices: numeric min/max amounts in an ISO 4217 currency.
+ */
+
+export const SUPPORTED_CURRENCIES = ["INR", "USD", "EUR", "GBP"] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "INR";
+
+export interface PriceRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+// Form state for a price that may still be incomplete or invalid
+export interface PriceDraft {
+  min: string;
+  max: string;
+  currency: string;
+  isRange: boolean;
+}
+
+const CURRENCY_SYMBOLS: Record<string, CurrencyCode> = {
+  "₹": "INR",
+  "rs": "INR",
+  "inr": "INR",
+  "$": "USD",
+  "usd": "USD",
+  "€": "EUR",
+  "eur": "EUR",
+  "£": "GBP",
+  "gbp": "GBP",
+};
+
+const CURRENCY_LOCALES: Record<string, string> = {
+  INR: "en-IN",
+  USD: "en-US",
+  EUR: "en-IE",
+  GBP: "en-GB",
+};
+
+const detectCurrency = (text: string): CurrencyCode | undefined => {
+  const lower = text.toLowerCase();
+  const match = Object.keys(CURRENCY_SYMBOLS).find((symbol) =>
+    /^[a-z]+$/.test(symbol) ? new RegExp(`\\b${symbol}\\b`).test(lower) : lower.includes(symbol)
+  );
+  return match ? CURRENCY_SYMBOLS[match] : undefined;
+};
+
+const parseAmount = (text: string): number | undefined => {
+  // Trim dots left over from abbreviations like "Rs."
+  const digits = text.replace(/[^0-9.]/g, "").replace(/^\.+|\.+$/g, "");
+  if (!/^\d+(\.\d+)?$/.test(digits)) return undefined;
+  return Number(digits);
+};
+
+/**
+ * Parse a legacy free-text price such as "₹1,999" or "₹9,969-₹29,069"
+ */
+export const parsePrice = (text: string | null | undefined, fallbackCurrency: string = DEFAULT_CURRENCY): PriceRange | null => {
+  if (!text) return null;
+  const [first, second] = text.split(/\s*[-–]\s*/);
+  const min = parseAmount(first ?? "");
+  if (min === undefined) return null;
+  const max = second !== undefined ? parseAmount(second) ?? min : min;
+  return {
+    min: Math.min(min, max),
+    max: Math.max(min, max),
+    currency: detectCurrency(text) ?? fallbackCurrency,
+  };
+};
+
+const formatAmount = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? "en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes throw a RangeError
+    return `${currency} ${amount}`;
+  }
+};
+
+/**
+ * Format a price for display, e.g. "₹1,999" or "₹9,969-₹29,069"
+ */
+export const formatPrice = ({ min, max, currency }: PriceRange): string =>
+  min === max
+    ? formatAmount(min, currency)
+    : `${formatAmount(min, currency)}-${formatAmount(max, currency)}`;
+
+/**
+ * Reformat a free-text price, falling back to the original text when it can't be parsed
+ */
+export const formatPriceText = (text: string | null | undefined): string => {
+  const parsed = parsePrice(text);
+  return parsed ? formatPrice(parsed) : text ?? "";
+};
+
+/**
+ * Display price for a post, preferring the structured amounts over the legacy text column
+ */
+export const formatPostPrice = (post: {
+  price?: string | null;
+  price_min?: number | null;
+  price_max?: number | null;
+  price_currency?: string | null;
+}): string => {
+  if (post.price_min !== null && post.price_min !== undefined) {
+    return formatPrice({
+      min: post.price_min,
+      max: post.price_max ?? post.price_min,
+      currency: post.price_currency || DEFAULT_CURRENCY,
+    });
+  }
+  return formatPriceText(post.price);
+};
+
+export const emptyPriceDraft = (): PriceDraft => ({
+  min: "",
+  max: "",
+  currency: DEFAULT_CURRENCY,
+  isRange: false,
+});
+
+export const priceDraftFromPost = (post: Parameters<typeof formatPostPrice>[0]): PriceDraft => {
+  const range = post.price_min !== null && post.price_min !== undefined
+    ? { min: post.price_min, max: post.price_max ?? post.price_min, currency: post.price_currency || DEFAULT_CURRENCY }
+    : parsePrice(post.price);
+  if (!range) return emptyPriceDraft();
+  return {
+    min: String(range.min),
+    max: String(range.max),
+    currency: range.currency,
+    isRange: range.max !== range.min,
+  };
+};
+
+/**
+ * Validate a price draft, returning either the structured price or an error message
+ */
+export const validatePriceDraft = (draft: PriceDraft): { price: PriceRange } | { error: string } => {
+  const min = Number(draft.min);
+  if (draft.min.trim() === "" || !Number.isFinite(min) || min <= 0) {
+    return { error: "Price is required" };
+  }
+  if (!draft.isRange) {
+    return { price: { min, max: min, currency: draft.currency } };
+  }
+  const max = Number(draft.max);
+  if (draft.max.trim() === "" || !Number.isFinite(max)) {
+    return { error: "Maximum price is required for a price range" };
+  }
+  if (max <= min) {
+    return { error: "Maximum price must be greater than the minimum" };
+  }
+  return { price: { min, max, currency: draft.currency } };
+};
@@ -0,0 +1,17 @@
+import { QueryClient } from '@tanstack/react-query';
+import { retryDelay, shouldRetry } from '@/lib/apiError';
+
+const HOUR = 60 * 60 * 1000;
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Cached data renders immediately and is revalidated in the background once stale
+      staleTime: 30 * 1000,
+      // Keep unused data around as long as it may be persisted, so it stays browsable offline
+      gcTime: 24 * HOUR,
+      retry: shouldRetry,
+      retryDelay,
+    },
+  },
+});
@@ -0,0 +1,113 @@
+/**
+ * Persists selected React Query results to IndexedDB so the app can render from cache on
+ * startup and keep browsing read-only while offline.
+ */
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from '@tanstack/react-query';
+import { idbRequest } from '@/lib/idb';
+
+const HOUR = 60 * 60 * 1000;
+
+// Bump when cached data shapes change so older entries are discarded
+const CACHE_BUSTER = '3';
+
+// Max age of persisted data by the first segment of the query key; other queries aren't persisted
+const PERSISTED_QUERY_MAX_AGE: Record<string, number> = {
+  posts: 6 * HOUR,
+  post: 6 * HOUR,
+  'my-posts': 24 * HOUR,
+  wishlist: 24 * HOUR,
+  'wishlist-ids': 24 * HOUR,
+  influencers: 24 * HOUR,
+};
+
+// Don't hold up the first render for long if IndexedDB is slow to open
+const RESTORE_TIMEOUT_MS = 1000;
+
+type DehydratedQuery = DehydratedState['queries'][number];
+
+interface PersistedQuery {
+  queryHash: string;
+  buster: string;
+  persistedAt: number;
+  query: DehydratedQuery;
+}
+
+const maxAgeFor = (queryKey: readonly unknown[]) =>
+  typeof queryKey[0] === 'string' ? PERSISTED_QUERY_MAX_AGE[queryKey[0]] : undefined;
+
+const isFresh = (record: PersistedQuery) => {
+  const maxAge = maxAgeFor(record.query.queryKey);
+  return record.buster === CACHE_BUSTER && maxAge !== undefined && Date.now() - record.persistedAt < maxAge;
+};
+
+// Only the first page of an infinite query is kept; later pages are refetched on scroll
+const trimInfiniteData = (query: DehydratedQuery): DehydratedQuery => {
+  const data = query.state.data as { pages?: unknown[]; pageParams?: unknown[] } | undefined;
+  if (!data || !Array.isArray(data.pages) || !Array.isArray(data.pageParams)) return query;
+  return {
+    ...query,
+    state: { ...query.state, data: { pages: data.pages.slice(0, 1), pageParams: data.pageParams.slice(0, 1) } },
+  };
+};
+
+/**
+ * Load persisted queries into the client, discarding expired entries
+ */
+export const restoreQueryCache = async (queryClient: QueryClient) => {
+  try {
+    const records = await Promise.race([
+      idbRequest<PersistedQuery[]>('query-cache', 'readonly', (store) => store.getAll()),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error('Timed out reading the query cache')), RESTORE_TIMEOUT_MS)
+      ),
+    ]);
+
+    const fresh = records.filter(isFresh);
+    hydrate(queryClient, { mutations: [], queries: fresh.map((record) => record.query) });
+
+    await Promise.all(
+      records
+        .filter((record) => !isFresh(record))
+        .map((record) => idbRequest('query-cache', 'readwrite', (store) => store.delete(record.queryHash)))
+    );
+  } catch (error) {
+    console.warn('Failed to restore the query cache:', error);
+  }
+};
+
+/**
+ * Write persistable queries to IndexedDB whenever they receive new data
+ */
+export const persistQueryCache = (queryClient: QueryClient) => {
+  return queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' || event.action.type !== 'success') return;
+    const { query } = event;
+    if (maxAgeFor(query.queryKey) === undefined) return;
+
+    const [dehydrated] = dehydrate(queryClient, {
+      shouldDehydrateQuery: (candidate) => candidate.queryHash === query.queryHash,
+    }).queries;
+    if (!dehydrated) return;
+
+    const record: PersistedQuery = {
+      queryHash: query.queryHash,
+      buster: CACHE_BUSTER,
+      persistedAt: Date.now(),
+      query: trimInfiniteData(dehydrated),
+    };
+    idbRequest('query-cache', 'readwrite', (store) => store.put(record)).catch((error) =>
+      console.warn('Failed to persist query:', error)
+    );
+  });
+};
+
+/**
+ * Drop every persisted query, e.g. when the user logs out
+ */
+export const clearPersistedQueries = async () => {
+  try {
+    await idbRequest('query-cache', 'readwrite', (store) => store.clear());
+  } catch (error) {
+    console.warn('Failed to clear the query cache:', error);
+  }
+};
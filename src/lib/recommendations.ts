@@ -0,0 +1,201 @@
+/**
+ * Ranks published posts for one shopper by how well they match their profile (body type,
+ * color season, style and fit), the creators they follow and what they've wishlisted. Every
+ * match adds to the score and says why, so the feed can explain each pick.
+ */
+import type { Measurements, Post, PostAuthor, UserProfile } from '@/lib/api';
+import {
+  BODY_TYPE_LABELS,
+  COLOR_SEASON_LABELS,
+  OCCASION_LABELS,
+  STYLE_TAG_LABELS,
+  isBodyType,
+  isColorSeason,
+  isStyleTag,
+  readStyleAttributes,
+  type BodyType,
+  type Occasion,
+  type StyleTag,
+} from '@/lib/styleAttributes';
+import { differenceInHours, parseISO } from 'date-fns';
+
+export interface RecommendationContext {
+  // Null when signed out, which leaves only popularity and recency to rank by
+  user: Pick<UserProfile, 'id' | 'gender' | 'body_type' | 'style_preference' | 'color_season'> | null;
+  measurements?: Pick<Measurements, 'chest' | 'waist' | 'hips'> | null;
+  followingIds?: ReadonlySet<string>;
+  // Posts the user has wishlisted; these are never recommended again
+  wishlist?: Post[];
+  now?: Date;
+}
+
+export interface Recommendation {
+  post: Post;
+  score: number;
+  // Why the post was picked, strongest first; never empty
+  reasons: string[];
+}
+
+export interface CreatorRecommendation {
+  creator: PostAuthor;
+  score: number;
+  reason: string;
+}
+
+const WEIGHTS = {
+  bodyType: 3,
+  colorSeason: 2.5,
+  style: 2,
+  followed: 2,
+  savedCreator: 1.5,
+  savedCategory: 1,
+  savedLook: 1,
+  // Cut for the other gender; heavy enough to sink the post without hiding it
+  otherFit: -4,
+  // Per doubling of the wishlist count
+  popularity: 0.5,
+  // For a post published just now, fading out over RECENCY_DAYS
+  recency: 1,
+};
+
+const RECENCY_DAYS = 30;
+
+// Chest, waist and hips in cm; the thresholds are the usual rules of thumb for each shape
+const inferBodyType = (
+  { chest, waist, hips }: Pick<Measurements, 'chest' | 'waist' | 'hips'>,
+  gender: string | null
+): BodyType | null => {
+  if (!chest || !waist || !hips) return null;
+  if (gender === 'male') {
+    if (waist >= chest || hips > chest * 1.05) return 'triangle';
+    if (chest >= waist * 1.25) return 'invertedTriangle';
+    if (chest >= waist * 1.1) return 'trapezoid';
+    return 'rectangle';
+  }
+  if (Math.abs(chest - hips) <= chest * 0.05 && waist <= Math.min(chest, hips) * 0.75) return 'hourglass';
+  if (hips > chest * 1.05) return 'pear';
+  if (chest > hips * 1.05) return 'invertedTriangle';
+  return 'rectangle';
+};
+
+// Each key with how many times it was seen
+const countBy = <T extends string>(keys: T[]) => {
+  const counts = new Map<T, number>();
+  keys.forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return counts;
+};
+
+// What the user's wishlist says about their taste
+const readWishlistTaste = (wishlist: Post[]) => {
+  const attributes = wishlist.map(readStyleAttributes);
+  return {
+    authors: countBy(wishlist.flatMap((post) => (post.author_id ? [post.author_id] : []))),
+    categories: countBy(wishlist.flatMap((post) => (post.category ? [post.category] : []))),
+    styles: countBy<StyleTag>(attributes.flatMap((post) => post.style_tags)),
+    occasions: countBy<Occasion>(attributes.flatMap((post) => post.occasions)),
+  };
+};
+
+// The value the post shares that the wishlist holds most often
+const strongestShared = <T extends string>(values: T[], counts: Map<T, number>) =>
+  values.reduce<T | null>((best, value) => {
+    const count = counts.get(value) ?? 0;
+    return count > 0 && count > (best ? counts.get(best) ?? 0 : 0) ? value : best;
+  }, null);
+
+/**
+ * Score and explain every post the user might want, best first. Their own posts and those
+ * already in their wishlist are left out.
+ */
+export const rankRecommendations = (posts: Post[], context: RecommendationContext): Recommendation[] => {
+  const { user, measurements, followingIds, wishlist = [], now = new Date() } = context;
+  const savedIds = new Set(wishlist.map((post) => post.id));
+  const taste = readWishlistTaste(wishlist);
+
+  // The profile's own body type wins over one worked out from measurements
+  const profileBodyType = isBodyType(user?.body_type) ? user.body_type : null;
+  const bodyType = profileBodyType ?? (measurements ? inferBodyType(measurements, user?.gender ?? null) : null);
+  const colorSeason = isColorSeason(user?.color_season) ? user.color_season : null;
+  const style = isStyleTag(user?.style_preference) ? user.style_preference : null;
+  const gender = user?.gender === 'male' || user?.gender === 'female' ? user.gender : null;
+
+  return posts
+    .filter((post) => !savedIds.has(post.id) && (!user || post.author_id !== user.id))
+    .map((post) => {
+      const attributes = readStyleAttributes(post);
+      const authorName = post.users?.name ?? 'a creator';
+      let score = 0;
+      const reasons: string[] = [];
+      const match = (weight: number, reason: string) => {
+        score += weight;
+        reasons.push(reason);
+      };
+
+      if (bodyType && attributes.body_types.includes(bodyType)) {
+        match(
+          WEIGHTS.bodyType,
+          profileBodyType
+            ? `Flatters your ${BODY_TYPE_LABELS[bodyType]} shape`
+            : `Suits the ${BODY_TYPE_LABELS[bodyType]} shape your measurements suggest`
+        );
+      }
+      if (colorSeason && attributes.color_seasons.includes(colorSeason)) {
+        match(WEIGHTS.colorSeason, `Matches your ${COLOR_SEASON_LABELS[colorSeason]} palette`);
+      }
+      if (style && attributes.style_tags.includes(style)) {
+        match(WEIGHTS.style, `Fits your ${STYLE_TAG_LABELS[style]} style`);
+      }
+      if (post.author_id && followingIds?.has(post.author_id)) {
+        match(WEIGHTS.followed, `From ${authorName}, who you follow`);
+      } else if (post.author_id && taste.authors.has(post.author_id)) {
+        match(WEIGHTS.savedCreator, `You've saved picks from ${authorName}`);
+      }
+      if (post.category && taste.categories.has(post.category)) {
+        match(WEIGHTS.savedCategory, `Like the ${post.category} picks in your wishlist`);
+      }
+      const sharedStyle = strongestShared(attributes.style_tags, taste.styles);
+      const sharedOccasion = strongestShared(attributes.occasions, taste.occasions);
+      if (sharedStyle) {
+        match(WEIGHTS.savedLook, `More of the ${STYLE_TAG_LABELS[sharedStyle]} looks you save`);
+      } else if (sharedOccasion) {
+        match(WEIGHTS.savedLook, `More ${OCCASION_LABELS[sharedOccasion]} picks like the ones you save`);
+      }
+
+      if (gender && attributes.gender_fit && attributes.gender_fit !== 'unisex' && attributes.gender_fit !== gender) {
+        score += WEIGHTS.otherFit;
+      }
+
+      const saves = post.wishlist_count ?? 0;
+      score += WEIGHTS.popularity * Math.log2(1 + saves);
+      const ageDays = Math.max(0, differenceInHours(now, parseISO(post.publish_at)) / 24);
+      score += WEIGHTS.recency * Math.max(0, 1 - ageDays / RECENCY_DAYS);
+
+      if (reasons.length === 0) {
+        reasons.push(
+          saves > 0 ? `Saved by ${saves} ${saves === 1 ? 'shopper' : 'shoppers'}` : `New from ${authorName}`
+        );
+      }
+      return { post, score, reasons };
+    })
+    .sort((a, b) => b.score - a.score || b.post.publish_at.localeCompare(a.post.publish_at));
+};
+
+/**
+ * Creators behind the best recommendations that the user doesn't follow yet, each with the
+ * reason their top post was picked
+ */
+export const recommendCreators = (
+  recommendations: Recommendation[],
+  followingIds: ReadonlySet<string> = new Set()
+): CreatorRecommendation[] => {
+  const creators = new Map<string, CreatorRecommendation>();
+  recommendations.forEach(({ post, score, reasons }) => {
+    const creator = post.users;
+    if (!post.author_id || !creator || followingIds.has(post.author_id)) return;
+    const current = creators.get(post.author_id);
+    // Recommendations come best first, so the first post seen gives the reason
+    if (current) current.score += score;
+    else creators.set(post.author_id, { creator, score, reason: reasons[0] });
+  });
+  return [...creators.values()].sort((a, b) => b.score - a.score);
+};
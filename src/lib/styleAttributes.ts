@@ -0,0 +1,146 @@
+/**
+ * The style taxonomy posts are tagged with, shared with the profile fields they're matched
+ * against. A profile picks one body type, style and color season; a post lists every one it
+ * suits. Values must match the check constraints on `posts`.
+ */
+export const BODY_TYPES = ['pear', 'hourglass', 'rectangle', 'invertedTriangle', 'trapezoid', 'triangle'] as const;
+export type BodyType = (typeof BODY_TYPES)[number];
+
+export const BODY_TYPE_LABELS: Record<BodyType, string> = {
+  pear: 'Pear',
+  hourglass: 'Hourglass',
+  rectangle: 'Rectangle',
+  invertedTriangle: 'Inverted Triangle',
+  trapezoid: 'Trapezoid',
+  triangle: 'Triangle',
+};
+
+// Stored in `users.style_preference` on profiles
+export const STYLE_TAGS = ['casual', 'formal', 'athletic', 'streetwear'] as const;
+export type StyleTag = (typeof STYLE_TAGS)[number];
+
+export const STYLE_TAG_LABELS: Record<StyleTag, string> = {
+  casual: 'Casual',
+  formal: 'Formal',
+  athletic: 'Athletic',
+  streetwear: 'Streetwear',
+};
+
+export const COLOR_SEASONS = ['spring', 'summer', 'autumn', 'winter'] as const;
+export type ColorSeason = (typeof COLOR_SEASONS)[number];
+
+export const COLOR_SEASON_LABELS: Record<ColorSeason, string> = {
+  spring: 'Spring',
+  summer: 'Summer',
+  autumn: 'Autumn',
+  winter: 'Winter',
+};
+
+// The profile's `gender`, plus pieces cut for anyone
+export const GENDER_FITS = ['female', 'male', 'unisex'] as const;
+export type GenderFit = (typeof GENDER_FITS)[number];
+
+export const GENDER_FIT_LABELS: Record<GenderFit, string> = {
+  female: 'Women',
+  male: 'Men',
+  unisex: 'Unisex',
+};
+
+export const OCCASIONS = ['everyday', 'work', 'party', 'wedding', 'vacation', 'workout', 'date'] as const;
+export type Occasion = (typeof OCCASIONS)[number];
+
+export const OCCASION_LABELS: Record<Occasion, string> = {
+  everyday: 'Everyday',
+  work: 'Work',
+  party: 'Party',
+  wedding: 'Wedding',
+  vacation: 'Vacation',
+  workout: 'Workout',
+  date: 'Date night',
+};
+
+export interface StyleAttributes {
+  body_types: BodyType[];
+  style_tags: StyleTag[];
+  color_seasons: ColorSeason[];
+  occasions: Occasion[];
+  // Null when the post doesn't say
+  gender_fit: GenderFit | null;
+}
+
+export type StyleAttributeList = Exclude<keyof StyleAttributes, 'gender_fit'>;
+
+// As the columns hold them: any text, since only the database checks the values
+type StoredStyleAttributes = Partial<Record<StyleAttributeList, readonly string[] | null>> & {
+  gender_fit?: string | null;
+};
+
+// Every multi-value attribute, with its allowed values and labels, for forms and filters
+export const STYLE_ATTRIBUTE_LISTS: {
+  key: StyleAttributeList;
+  label: string;
+  values: readonly string[];
+  labels: Record<string, string>;
+}[] = [
+  { key: 'body_types', label: 'Body types', values: BODY_TYPES, labels: BODY_TYPE_LABELS },
+  { key: 'style_tags', label: 'Style', values: STYLE_TAGS, labels: STYLE_TAG_LABELS },
+  { key: 'color_seasons', label: 'Color season', values: COLOR_SEASONS, labels: COLOR_SEASON_LABELS },
+  { key: 'occasions', label: 'Occasion', values: OCCASIONS, labels: OCCASION_LABELS },
+];
+
+export const emptyStyleAttributes = (): StyleAttributes => ({
+  body_types: [],
+  style_tags: [],
+  color_seasons: [],
+  occasions: [],
+  gender_fit: null,
+});
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.includes(value as T);
+
+export const isBodyType = (value: unknown): value is BodyType => isOneOf(BODY_TYPES, value);
+export const isStyleTag = (value: unknown): value is StyleTag => isOneOf(STYLE_TAGS, value);
+export const isColorSeason = (value: unknown): value is ColorSeason => isOneOf(COLOR_SEASONS, value);
+export const isGenderFit = (value: unknown): value is GenderFit => isOneOf(GENDER_FITS, value);
+export const isOccasion = (value: unknown): value is Occasion => isOneOf(OCCASIONS, value);
+
+// Known values in taxonomy order, each once
+const pickKnown = <T extends string>(values: readonly T[], picked: readonly unknown[] | null | undefined): T[] =>
+  values.filter((value) => picked?.includes(value));
+
+/**
+ * A post's attributes as stored, skipping anything outside the taxonomy
+ */
+export const readStyleAttributes = (post: StoredStyleAttributes): StyleAttributes => ({
+  body_types: pickKnown(BODY_TYPES, post.body_types),
+  style_tags: pickKnown(STYLE_TAGS, post.style_tags),
+  color_seasons: pickKnown(COLOR_SEASONS, post.color_seasons),
+  occasions: pickKnown(OCCASIONS, post.occasions),
+  gender_fit: isGenderFit(post.gender_fit) ? post.gender_fit : null,
+});
+
+/**
+ * Check tagged values against the taxonomy, naming the first one that doesn't belong.
+ * Duplicates are dropped and values put in taxonomy order, so equal tags compare equal.
+ */
+export const validateStyleAttributes = (
+  attributes: StoredStyleAttributes
+): { attributes: StyleAttributes } | { error: string } => {
+  for (const { key, label, values } of STYLE_ATTRIBUTE_LISTS) {
+    const unknown = attributes[key]?.find((value) => !values.includes(value));
+    if (unknown !== undefined) return { error: `${label}: "${unknown}" isn't one of the options` };
+  }
+  if (attributes.gender_fit && !isGenderFit(attributes.gender_fit)) {
+    return { error: `Fit: "${attributes.gender_fit}" isn't one of the options` };
+  }
+  return { attributes: readStyleAttributes(attributes) };
+};
+
+/**
+ * Display labels for every value tagged, in taxonomy order
+ */
+export const styleAttributeLabels = (attributes: StyleAttributes): string[] => [
+  ...STYLE_ATTRIBUTE_LISTS.flatMap(({ key, labels }) => attributes[key].map((value) => labels[value])),
+  ...(attributes.gender_fit ? [GENDER_FIT_LABELS[attributes.gender_fit]] : []),
+];
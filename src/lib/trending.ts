@@ -0,0 +1,109 @@
+/**
+ * Ranks posts, categories and creators by recent engagement. Each wishlist add, view and
+ * follow counts by its kind and loses half its weight every HALF_LIFE_DAYS, so a burst today
+ * outranks a bigger one last week. The week-over-week change compares undecayed totals for
+ * the last seven days with the seven before.
+ *
+ * Supabase ranks in the database (`get_trending`), with the same weights and half-life and
+ * with only influencers ranked as creators; `computeTrending` does it for the memory backend.
+ */
+export type EngagementKind = 'wishlist' | 'view' | 'follow';
+
+// A wishlist add or view of a live post, or a follow. Who acted isn't kept; `user_id` is
+// the creator credited, the post's author or the user followed, and null when they aren't
+// an influencer, so the event still counts for the post and category alone.
+export interface EngagementEvent {
+  kind: EngagementKind;
+  post_id: string | null;
+  user_id: string | null;
+  category: string | null;
+  created_at: string;
+}
+
+export const TRENDING_WINDOW_DAYS = 7;
+// The current window plus the one it's compared with
+export const TRENDING_LOOKBACK_DAYS = TRENDING_WINDOW_DAYS * 2;
+
+// How many of each list are ranked unless a caller asks for another number
+export const TRENDING_LIMIT = 20;
+
+const HALF_LIFE_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A follow says more than a save, and a save more than a look
+const WEIGHTS: Record<EngagementKind, number> = {
+  view: 1,
+  wishlist: 5,
+  follow: 8,
+};
+
+export interface TrendingStat {
+  // A post id, a category name or a user id
+  id: string;
+  // Decayed weight of this week's engagement, which the ranking uses
+  score: number;
+  thisWeek: number;
+  lastWeek: number;
+  // Fraction gained since last week, or null when there was no engagement last week
+  change: number | null;
+  // This week's events of each kind
+  counts: Record<EngagementKind, number>;
+}
+
+export interface Trending {
+  posts: TrendingStat[];
+  categories: TrendingStat[];
+  // Post authors, credited with engagement on their posts, and followed users
+  creators: TrendingStat[];
+}
+
+type Tally = Omit<TrendingStat, 'change'>;
+
+const addEvent = (tallies: Map<string, Tally>, id: string, kind: EngagementKind, ageDays: number) => {
+  let tally = tallies.get(id);
+  if (!tally) {
+    tally = { id, score: 0, thisWeek: 0, lastWeek: 0, counts: { view: 0, wishlist: 0, follow: 0 } };
+    tallies.set(id, tally);
+  }
+  const weight = WEIGHTS[kind];
+  if (ageDays < TRENDING_WINDOW_DAYS) {
+    tally.score += weight * 0.5 ** (ageDays / HALF_LIFE_DAYS);
+    tally.thisWeek += weight;
+    tally.counts[kind] += 1;
+  } else {
+    tally.lastWeek += weight;
+  }
+};
+
+export const weekOverWeekChange = (thisWeek: number, lastWeek: number) =>
+  lastWeek > 0 ? (thisWeek - lastWeek) / lastWeek : null;
+
+// Only what had engagement this week trends, strongest first
+const rank = (tallies: Map<string, Tally>): TrendingStat[] =>
+  [...tallies.values()]
+    .filter((tally) => tally.thisWeek > 0)
+    .map((tally) => ({ ...tally, change: weekOverWeekChange(tally.thisWeek, tally.lastWeek) }))
+    .sort((a, b) => b.score - a.score || b.thisWeek - a.thisWeek);
+
+export const computeTrending = (events: EngagementEvent[], now = new Date()): Trending => {
+  const posts = new Map<string, Tally>();
+  const categories = new Map<string, Tally>();
+  const creators = new Map<string, Tally>();
+
+  events.forEach(({ kind, post_id, user_id, category, created_at }) => {
+    // Clock skew can put an event a moment in the future; count it as just now
+    const ageDays = Math.max(0, (now.getTime() - Date.parse(created_at)) / DAY_MS);
+    if (!(ageDays < TRENDING_LOOKBACK_DAYS)) return;
+    if (post_id) addEvent(posts, post_id, kind, ageDays);
+    if (category) addEvent(categories, category, kind, ageDays);
+    if (user_id) addEvent(creators, user_id, kind, ageDays);
+  });
+
+  return { posts: rank(posts), categories: rank(categories), creators: rank(creators) };
+};
+
+export const formatTrendingChange = (change: number | null) => {
+  if (change === null) return 'New';
+  const percent = Math.round(Math.abs(change) * 100);
+  return change < 0 ? `−${percent}%` : `+${percent}%`;
+};
@@ -0,0 +1,129 @@
+/**
+ * Prepares videos in the browser before they're uploaded: checks their length and grabs a
+ * poster frame, which can later be swapped for another frame of the uploader's choosing.
+ */
+import { encodeStill } from '@/lib/imagePipeline';
+import { MAX_VIDEO_SECONDS } from '@/lib/media';
+
+// Posters are shown at full card and player size, unlike image thumbnails
+const POSTER_DIMENSION = 1280;
+
+// The very first frame is often black, so the default poster comes from a little later
+const DEFAULT_POSTER_SECONDS = 1;
+
+// How long to look for the end of a video whose length isn't in its header
+const DURATION_TIMEOUT_MS = 5000;
+
+// How long a seek may take before the file is given up on as unreadable
+const SEEK_TIMEOUT_MS = 10000;
+
+export interface ProcessedVideo {
+  poster: File;
+  blurhash: string;
+  width: number;
+  height: number;
+  // Undefined when the browser couldn't tell how long the video is
+  duration?: number;
+  poster_time: number;
+}
+
+/**
+ * Load a video far enough to read its size and duration. Stored videos are fetched with
+ * CORS so their frames can be drawn to a canvas.
+ */
+export const loadVideo = (src: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("This video couldn't be played in the browser"));
+    video.src = src;
+  });
+
+// Broken or partly decodable files can fail to seek, or never finish seeking
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    if (Math.abs(video.currentTime - time) < 0.01) {
+      resolve();
+      return;
+    }
+    const fail = () => finish(new Error("This video couldn't be read to the chosen time"));
+    const timer = setTimeout(fail, SEEK_TIMEOUT_MS);
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      video.onseeked = null;
+      video.onerror = null;
+      if (error) reject(error);
+      else resolve();
+    };
+    video.onseeked = () => finish();
+    video.onerror = fail;
+    video.currentTime = time;
+  });
+
+/**
+ * The video's length in seconds, or undefined when it can't be found. Recordings made with
+ * MediaRecorder leave it out of the file's header, so browsers report Infinity until they've
+ * seeked to the end.
+ */
+export const resolveDuration = async (video: HTMLVideoElement): Promise<number | undefined> => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, DURATION_TIMEOUT_MS);
+    video.ondurationchange = () => {
+      if (!Number.isFinite(video.duration)) return;
+      clearTimeout(timer);
+      resolve();
+    };
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+  video.ondurationchange = null;
+  await seekTo(video, 0);
+  return Number.isFinite(video.duration) ? video.duration : undefined;
+};
+
+/**
+ * The frame at `time` as a poster image, with its blurhash
+ */
+export const captureFrame = async (video: HTMLVideoElement, time: number, name: string) => {
+  await seekTo(video, time);
+  return encodeStill(video, video.videoWidth, video.videoHeight, name, POSTER_DIMENSION);
+};
+
+/**
+ * Why a video can't be posted, judged by what's in the file rather than its size. A length
+ * that couldn't be found isn't held against it.
+ */
+export const validateVideoDuration = (duration: number | undefined, name: string) =>
+  duration !== undefined && duration > MAX_VIDEO_SECONDS
+    ? `${name} is longer than ${MAX_VIDEO_SECONDS} seconds`
+    : undefined;
+
+export const processVideo = async (file: File): Promise<ProcessedVideo> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url).catch(() => {
+      throw new Error(`${file.name} couldn't be read as a video`);
+    });
+    const duration = await resolveDuration(video);
+    const invalid = validateVideoDuration(duration, file.name);
+    if (invalid) throw new Error(invalid);
+
+    const posterTime =
+      duration === undefined ? DEFAULT_POSTER_SECONDS : Math.min(DEFAULT_POSTER_SECONDS, duration / 2);
+    const { file: poster, blurhash } = await captureFrame(video, posterTime, file.name);
+    return {
+      poster,
+      blurhash,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      duration,
+      poster_time: posterTime,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
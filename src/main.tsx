@@ -2,9 +2,15 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { AuthProvider } from '@/hooks/useAuth'
+import { queryClient } from '@/lib/queryClient'
+import { persistQueryCache, restoreQueryCache } from '@/lib/queryPersistence'
 
-createRoot(document.getElementById("root")!).render(
-  <AuthProvider>
-    <App />
-  </AuthProvider>
-);
+// Render once the persisted cache is restored so pages start from cached data
+restoreQueryCache(queryClient).finally(() => {
+  persistQueryCache(queryClient);
+  createRoot(document.getElementById("root")!).render(
+    <AuthProvider>
+      <App />
+    </AuthProvider>
+  );
+});
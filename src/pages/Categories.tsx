@@ -4,9 +4,10 @@ import Navbar from "../components/Navbar";
 import Footer from "../components/Footer";
 import CategoryCard from "../components/CategoryCard";
 import { useNavigate } from "react-router-dom";
+import { serializePostFilters, type PostCategory } from "@/lib/postFilters";
 
-// You can update these categories and their images as needed
-const categories = [
+// Labels must stay in sync with POST_CATEGORIES, which is what posts are tagged with
+const categories: { label: PostCategory; image: string }[] = [
   {
     label: "Summer Trends",
     image:
@@ -44,8 +45,8 @@ const Categories = () => {
 
   // Optionally, handle card click to navigate or filter results
   const handleCategoryClick = (category: string) => {
-    // Example: navigate to `/for-you?category=Summer Trends`
-    navigate(`/for-you?category=${encodeURIComponent(category)}`);
+    // e.g. `/for-you?category=Summer+Trends`, picked up by the For You filters
+    navigate(`/for-you?${serializePostFilters({ category })}`);
   };
 
   return (
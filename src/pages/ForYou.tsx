@@ -1,13 +1,19 @@
 import { useMemo } from "react";
 import Navbar from "../components/Navbar";
 import PersonalizedFeed from "../components/PersonalizedFeed";
+import PostFilterSidebar from "../components/PostFilterSidebar";
+import FilteredPostGrid from "../components/FilteredPostGrid";
 import Footer from "../components/Footer";
 import { useAuth } from "@/hooks/useAuth";
+import { usePostFilters } from "@/hooks/usePostFilters";
+import { countActiveFilters } from "@/lib/postFilters";
 
 const ForYou = () => {
   const { user } = useAuth();
   // Derive a safe display name to avoid flicker
   const displayName = useMemo(() => user?.name || "User", [user]);
+  const { filters, setFilters, clearFilters } = usePostFilters();
+  const isFiltering = countActiveFilters(filters) > 0;
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
@@ -24,7 +30,17 @@ const ForYou = () => {
             </p>
           </div>
           
-          <PersonalizedFeed />
+          <div className="flex flex-col md:flex-row gap-8">
+            <PostFilterSidebar filters={filters} onChange={setFilters} />
+            <div className="flex-1 min-w-0">
+              {/* Filters (e.g. a category picked on /categories) switch the page to matching posts */}
+              {isFiltering ? (
+                <FilteredPostGrid filters={filters} onClearFilters={clearFilters} />
+              ) : (
+                <PersonalizedFeed />
+              )}
+            </div>
+          </div>
         </div>
       </main>
       
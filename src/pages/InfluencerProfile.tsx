@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/components/ui/use-toast";
 import NewPostForm from "../components/NewPostForm";
 import InfluencerPosts from "../components/InfluencerPosts";
+import PostCalendar from "../components/PostCalendar";
 import { useAuth } from "@/hooks/useAuth";
 
 const InfluencerProfile = () => {
@@ -95,7 +96,18 @@ const InfluencerProfile = () => {
                 <CardTitle>Your Posts</CardTitle>
               </CardHeader>
               <CardContent>
-                <InfluencerPosts />
+                <Tabs defaultValue="list">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="list">List</TabsTrigger>
+                    <TabsTrigger value="calendar">Calendar</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="list">
+                    <InfluencerPosts />
+                  </TabsContent>
+                  <TabsContent value="calendar">
+                    <PostCalendar />
+                  </TabsContent>
+                </Tabs>
               </CardContent>
 // ...existing code...
               <CardContent>
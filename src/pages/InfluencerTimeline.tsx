@@ -1,155 +1,29 @@
-import { useState, useEffect } from "react";
-import { useParams } from "react-router-dom";
+import { useMemo } from "react";
+import { Navigate, useParams } from "react-router-dom";
 import Navbar from "../components/Navbar";
 import Footer from "../components/Footer";
 import InfluencerHeader from "../components/InfluencerHeader";
-import InfluencerProducts from "../components/InfluencerProducts";
-
-// Mock database of influencers
-const influencerDatabase = [
-  {
-    id: 1,
-    name: "Emma Johnson",
-    category: "Fashion & Style",
-    followers: "1.2M",
-    following: "245",
-    image: "https://images.unsplash.com/photo-1494790108377-be9c29b29330?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
-    bio: "Fashion enthusiast and style advisor. I help you find the perfect look for any occasion.",
-    products: [
-      {
-        id: 1,
-        name: "Wireless Noise-Cancelling Headphones",
-        price: "₹20,699",
-        image: "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-        type: "image",
-        description: "Premium wireless headphones with active noise cancellation for an immersive listening experience."
-      },
-      {
-        id: 6,
-        name: "Designer Sunglasses",
-        price: "₹14,539",
-        image: "https://images.unsplash.com/photo-1511499767150-a48a237f0083?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1780&q=80",
-        type: "image",
-        description: "Stylish designer sunglasses that protect your eyes while making a fashion statement."
-      },
-      {
-        id: 7,
-        name: "Summer Collection Review",
-        price: "₹9,969-₹29,069",
-        image: "https://images.unsplash.com/photo-1581091226825-a6a2a5aee158?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1600&q=80",
-        type: "video",
-        description: "Check out my review of this season's must-have summer fashion pieces."
-      }
-    ]
-  },
-  {
-    id: 2,
-    name: "Alex Rivera",
-    category: "Fitness & Wellness",
-    followers: "850K",
-    following: "173",
-    image: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
-    bio: "Certified fitness trainer, wellness advocate and nutrition specialist. Helping you reach your fitness goals.",
-    products: [
-      {
-        id: 2,
-        name: "Premium Yoga Mat",
-        price: "₹7,399",
-        image: "https://images.unsplash.com/photo-1611741385334-864f40e100b8?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-        type: "image",
-        description: "High-quality yoga mat with superior grip and cushioning for your practice."
-      },
-      {
-        id: 5,
-        name: "Sustainable Water Bottle",
-        price: "₹2,909",
-        image: "https://images.unsplash.com/photo-1606767041004-6b387b91e360?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1887&q=80",
-        type: "image",
-        description: "Eco-friendly insulated water bottle that keeps drinks cold for 24 hours or hot for 12 hours."
-      },
-      {
-        id: 8,
-        name: "Home Workout Essentials",
-        price: "₹1,246-₹9,969",
-        image: "https://images.unsplash.com/photo-1518611012118-696072aa579a?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-        type: "video",
-        description: "Everything you need to create an effective home gym on any budget."
-      }
-    ]
-  },
-  {
-    id: 3,
-    name: "Sarah Chen",
-    category: "Beauty & Skincare",
-    followers: "2.3M",
-    following: "298",
-    image: "https://images.unsplash.com/photo-1580489944761-15a19d654956?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
-    bio: "Beauty expert, skincare enthusiast and makeup artist. I share my favorite products and techniques for healthy skin.",
-    products: [
-      {
-        id: 3,
-        name: "Hydrating Facial Serum",
-        price: "₹4,819",
-        image: "https://images.unsplash.com/photo-1608248543803-ba4f8c70ae0b?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1912&q=80",
-        type: "image",
-        description: "Deeply hydrating facial serum with hyaluronic acid and vitamin C for glowing skin."
-      },
-      {
-        id: 9,
-        name: "Morning Skincare Routine",
-        price: "₹2,492-₹16,609",
-        image: "https://images.unsplash.com/photo-1576426863848-c21f53c60b19?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-        type: "video",
-        description: "My step-by-step morning skincare routine for radiant, healthy skin."
-      }
-    ]
-  },
-  {
-    id: 4,
-    name: "Marcus Taylor",
-    category: "Home & Lifestyle",
-    followers: "930K",
-    following: "215",
-    image: "https://images.unsplash.com/photo-1500648767791-00dcc994a43e?ixlib=rb-1.2.1&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80",
-    bio: "Interior design professional and lifestyle blogger. I help create comfortable, stylish living spaces.",
-    products: [
-      {
-        id: 4,
-        name: "Smart Home Assistant",
-        price: "₹10,719",
-        image: "https://images.unsplash.com/photo-1558089687-f282ffcbc0d3?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1925&q=80",
-        type: "image",
-        description: "Voice-controlled smart home assistant that helps manage your daily tasks and controls your smart devices."
-      },
-      {
-        id: 10,
-        name: "Home Office Setup Guide",
-        price: "₹8,309-₹41,519",
-        image: "https://images.unsplash.com/photo-1585842630354-448fe6ccbef8?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-        type: "video",
-        description: "Create the perfect productive workspace with my complete home office setup guide."
-      }
-    ]
-  }
-];
+import FilteredPostGrid from "../components/FilteredPostGrid";
+import { Button } from "@/components/ui/button";
+import { useInfluencers, useUser } from "@/hooks/useUsers";
+import { toApiError } from "@/lib/apiError";
+import { isLegacyInfluencerId, resolveLegacyInfluencerId } from "@/lib/legacyFollows";
 
 const InfluencerTimeline = () => {
-  const { id } = useParams();
-  const [influencer, setInfluencer] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-  
-  useEffect(() => {
-    // Simulate API fetch with setTimeout
-    setTimeout(() => {
-      const foundInfluencer = influencerDatabase.find(
-        (inf) => inf.id === Number(id)
-      );
-      setInfluencer(foundInfluencer || null);
-      setLoading(false);
-    }, 500);
-  }, [id]);
+  const { id = "" } = useParams<{ id: string }>();
+  // Links from the static pages still number influencers instead of using their account id
+  const isLegacyId = isLegacyInfluencerId(id);
+  const { data: influencersData, isLoading: influencersLoading } = useInfluencers();
+  const { data, isLoading, isError, error, refetch } = useUser(id, { enabled: !isLegacyId });
+  const influencer = data?.user;
+  const filters = useMemo(() => ({ influencer_id: id }), [id]);
 
-  if (loading) {
+  if (isLegacyId && influencersData) {
+    const accountId = resolveLegacyInfluencerId(id, influencersData.users);
+    if (accountId) return <Navigate to={`/influencer/${accountId}`} replace />;
+  }
+
+  if ((isLegacyId && influencersLoading) || (!isLegacyId && isLoading)) {
     return (
       <div className="min-h-screen flex flex-col">
         <Navbar />
@@ -162,13 +36,26 @@ const InfluencerTimeline = () => {
   }
 
   if (!influencer) {
+    // Missing accounts and malformed ids fail for good; only a passing failure is worth retrying
+    const notFound = !isError || !toApiError(error).isTransient;
     return (
       <div className="min-h-screen flex flex-col">
         <Navbar />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
-            <h2 className="text-2xl font-bold text-gray-700">Influencer not found</h2>
-            <p className="mt-2 text-gray-500">The influencer you're looking for doesn't exist or has been removed.</p>
+            {notFound ? (
+              <>
+                <h2 className="text-2xl font-bold text-gray-700">Influencer not found</h2>
+                <p className="mt-2 text-gray-500">The influencer you're looking for doesn't exist or has been removed.</p>
+              </>
+            ) : (
+              <>
+                <h2 className="text-2xl font-bold text-gray-700">Couldn't load this profile</h2>
+                <Button variant="outline" className="mt-4" onClick={() => refetch()}>
+                  Try again
+                </Button>
+              </>
+            )}
           </div>
         </div>
         <Footer />
@@ -181,7 +68,10 @@ const InfluencerTimeline = () => {
       <Navbar />
       <main className="flex-1">
         <InfluencerHeader influencer={influencer} />
-        <InfluencerProducts products={influencer.products} />
+        <div className="container py-10 px-4">
+          <h2 className="text-2xl font-semibold mb-6">Posts</h2>
+          <FilteredPostGrid filters={filters} emptyMessage={`${influencer.name} hasn't posted anything yet.`} />
+        </div>
       </main>
       <Footer />
     </div>
@@ -1,50 +1,95 @@
 
-import React from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import React, { useMemo, useState } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { ExternalLink } from "lucide-react";
 import Navbar from "../components/Navbar";
 import Footer from "../components/Footer";
-import { influencerDatabase } from "../utils/influencerDatabase";
 import ShopThisPost from "../components/ShopThisPost";
+import ShopPostCard from "../components/ShopPostCard";
+import PostMediaGallery from "../components/PostMediaGallery";
+import WishlistButton from "../components/WishlistButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { usePost, usePosts } from "@/hooks/usePosts";
+import { useRecordPostView } from "@/hooks/useTrending";
+import { toApiError } from "@/lib/apiError";
+import { smallAvatarUrl } from "@/lib/avatar";
+import { readMediaMeta } from "@/lib/media";
+import { getPostStatus } from "@/lib/postDrafts";
+import { formatPrice, formatPostPrice } from "@/lib/price";
+import { readStyleAttributes, styleAttributeLabels } from "@/lib/styleAttributes";
 
-// Find post and influencer by product id
-const findPostById = (id: string | undefined) => {
-  if (!id) return null;
-  for (const inf of influencerDatabase) {
-    const product = inf.products.find((p) => String(p.id) === id);
-    if (product) {
-      return {
-        image: product.image,
-        caption: product.caption,
-        influencer: {
-          name: inf.name,
-          avatar: inf.avatar,
-        },
-        category: inf.category,
-        shopItems: product.shopItems || [],
-      };
-    }
-  }
-  return null;
-};
+// Fetched one over, since the post being viewed is usually among them
+const MORE_POSTS_LIMIT = 7;
 
 const PostDetails = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const post = findPostById(id);
+  const { data, isLoading, isError, error, refetch } = usePost(id ?? "");
+  const post = data?.post;
+  const { user } = useAuth();
+  // Only signed-in shoppers count towards trending; authors looking at their own posts don't
+  useRecordPostView(
+    post && user && post.author_id !== user.id && getPostStatus(post) === "published" ? post.id : undefined
+  );
+  // The product whose hotspot was tapped, highlighted in Shop this post
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
+
+  const { data: morePostsData } = usePosts(
+    { influencer_id: post?.author_id, limit: MORE_POSTS_LIMIT },
+    { enabled: !!post?.author_id }
+  );
+  const morePosts = (morePostsData?.posts ?? [])
+    .filter((candidate) => candidate.id !== post?.id)
+    .slice(0, MORE_POSTS_LIMIT - 1);
+
+  const products = useMemo(() => post?.post_products ?? [], [post]);
+  const shopItems = products.map((product) => ({
+    id: product.id,
+    title: product.title,
+    image: product.image_url ?? "",
+    link: product.link,
+    price:
+      product.price === null
+        ? undefined
+        : formatPrice({ min: product.price, max: product.price, currency: product.price_currency }),
+  }));
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-1 flex items-center justify-center">
+          <div className="animate-pulse text-muted-foreground">Loading post...</div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
 
   if (!post) {
+    // Missing, hidden and malformed ids all fail for good; only a passing failure is worth retrying
+    const notFound = !isError || !toApiError(error).isTransient;
     return (
       <div className="min-h-screen flex flex-col">
         <Navbar />
         <main className="flex-1 flex items-center justify-center">
-          <div>
-            <h2 className="text-xl font-bold mb-2 text-center">Post Not Found</h2>
-            <button
-              onClick={() => navigate("/shop")}
-              className="mt-2 px-4 py-2 bg-brand-600 text-white rounded"
-            >
-              Back to Shop
-            </button>
+          <div className="text-center">
+            <h2 className="text-xl font-bold mb-2">{notFound ? "Post Not Found" : "Couldn't load this post"}</h2>
+            <div className="flex justify-center gap-2">
+              {!notFound && (
+                <Button variant="outline" className="mt-2" onClick={() => refetch()}>
+                  Try again
+                </Button>
+              )}
+              <button
+                onClick={() => navigate("/shop")}
+                className="mt-2 px-4 py-2 bg-brand-600 text-white rounded"
+              >
+                Back to Shop
+              </button>
+            </div>
           </div>
         </main>
         <Footer />
@@ -52,36 +97,96 @@ const PostDetails = () => {
     );
   }
 
+  const status = getPostStatus(post);
+  const author = post.users;
+  const styleTags = styleAttributeLabels(readStyleAttributes(post));
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
-      <main className="flex-1 flex flex-col md:flex-row container py-10 md:py-16 gap-8">
-        <div className="md:w-2/3 flex items-center justify-center">
-          <img
-            src={post.image}
-            alt={post.caption}
-            className="rounded-lg shadow-lg max-h-[500px] object-cover w-full"
-          />
-        </div>
-        <div className="md:w-1/3 flex flex-col justify-start">
-          <div className="flex items-center mb-4">
-            <img src={post.influencer.avatar} alt={post.influencer.name} className="w-12 h-12 rounded-full object-cover mr-4" />
-            <div>
-              <div className="font-semibold text-lg">{post.influencer.name}</div>
-              <div className="text-sm text-muted-foreground">{post.category}</div>
-            </div>
+      <main className="flex-1 container py-10 md:py-16 space-y-12">
+        <div className="flex flex-col md:flex-row gap-8">
+          <div className="md:w-2/3 min-w-0">
+            <PostMediaGallery
+              mediaUrls={post.media_urls ?? []}
+              mediaMeta={readMediaMeta(post.media_meta)}
+              alt={post.name}
+              products={products}
+              activeProductId={activeItemId}
+              onProductSelect={(itemId) => setActiveItemId((current) => (current === itemId ? null : itemId))}
+            />
           </div>
-          <h2 className="text-2xl font-bold mb-2">Post</h2>
-          <p className="mb-4">{post.caption}</p>
-          {/* Shop this post area */}
-          <div className="mt-6">
-            <div className="flex justify-between items-center mb-2">
-              <div className="font-medium text-lg">Shop this post</div>
-              <span className="text-xs text-muted-foreground">Paid links</span>
+          <div className="md:w-1/3 flex flex-col justify-start">
+            {author && (
+              <Link to={`/influencer/${author.id}`} className="flex items-center mb-4 group">
+                <img
+                  src={smallAvatarUrl(author.avatar_url) || "/placeholder.svg"}
+                  alt={author.name}
+                  className="w-12 h-12 rounded-full object-cover mr-4"
+                />
+                <div>
+                  <div className="font-semibold text-lg group-hover:underline">{author.name}</div>
+                  <div className="text-sm text-muted-foreground">{post.category || author.category}</div>
+                </div>
+              </Link>
+            )}
+            {status !== "published" && (
+              <Badge variant="secondary" className="self-start mb-2">
+                {status === "draft" ? "Draft" : `Scheduled for ${new Date(post.publish_at).toLocaleString()}`}
+              </Badge>
+            )}
+            <h1 className="text-2xl font-bold mb-1">{post.name}</h1>
+            <p className="text-xl font-semibold text-brand-600 mb-4">{formatPostPrice(post)}</p>
+            <p className="mb-6 whitespace-pre-line">{post.description}</p>
+            {styleTags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-6" aria-label="Style tags">
+                {styleTags.map((tag) => (
+                  <Badge key={tag} variant="outline">{tag}</Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              {post.product_link && (
+                <Button asChild>
+                  <a href={post.product_link} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    View product
+                  </a>
+                </Button>
+              )}
+              <WishlistButton postId={post.id} size="default" />
             </div>
-            <ShopThisPost items={post.shopItems} />
+            {shopItems.length > 0 && (
+              <div className="mt-8">
+                <div className="flex justify-between items-center mb-2">
+                  <div className="font-medium text-lg">Shop this post</div>
+                  <span className="text-xs text-muted-foreground">Paid links</span>
+                </div>
+                <ShopThisPost items={shopItems} activeId={activeItemId} />
+              </div>
+            )}
           </div>
         </div>
+
+        {author && morePosts.length > 0 && (
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">More from {author.name}</h2>
+              <Link to={`/influencer/${author.id}`} className="text-sm text-brand-600 hover:underline">
+                See all
+              </Link>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {morePosts.map((morePost) => (
+                <ShopPostCard
+                  key={morePost.id}
+                  post={morePost}
+                  onClick={() => navigate(`/shop/post/${morePost.id}`)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
       </main>
       <Footer />
     </div>
@@ -23,12 +23,29 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import AvatarCropDialog from "../components/AvatarCropDialog";
 import MeasurementGuide from "../components/MeasurementGuide";
 import Navbar from "../components/Navbar";
 import BodyTypeSelectWithImage from "../components/BodyTypeSelectWithImage";
 import BodyTypeUserGuide from "../components/BodyTypeUserGuide";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { AVATAR_SOURCE_TYPES } from "@/lib/avatar";
+import { useMeasurements, useSaveMeasurements } from "@/hooks/useMeasurements";
+import type { Measurements, UserProfile } from "@/lib/api";
+import { MAX_IMAGE_BYTES } from "@/lib/media";
+import {
+  COLOR_SEASONS,
+  COLOR_SEASON_LABELS,
+  STYLE_TAGS,
+  STYLE_TAG_LABELS,
+  isBodyType,
+  isColorSeason,
+  isStyleTag,
+  type BodyType,
+  type ColorSeason,
+  type StyleTag,
+} from "@/lib/styleAttributes";
 import { useNavigate } from "react-router-dom";
 
 // Profile form schema
@@ -40,73 +57,88 @@ const profileSchema = z.object({
 });
 
 // Measurements form schema
+const SKIN_TONES = ["fair", "light", "medium", "olive", "tan", "deep", "dark"] as const;
+type SkinTone = (typeof SKIN_TONES)[number];
+
+const optionalCentimeters = z
+  .string()
+  .optional()
+  .refine((value) => !value || Number(value) > 0, { message: "Enter a size in centimeters" });
+
 const measurementsSchema = z.object({
-  height: z.string().min(1, { message: "Height is required" }),
-  chest: z.string().optional(),
-  waist: z.string().optional(),
-  hips: z.string().optional(),
+  height: z
+    .string()
+    .min(1, { message: "Height is required" })
+    .refine((value) => Number(value) > 0, { message: "Enter your height in centimeters" }),
+  chest: optionalCentimeters,
+  waist: optionalCentimeters,
+  hips: optionalCentimeters,
   shoeSize: z.string().optional(),
   skinTone: z.string().optional(),
 });
 
 type Gender = "male" | "female";
-type BodyType =
-  | "pear"
-  | "hourglass"
-  | "rectangle"
-  | "invertedTriangle"
-  | "trapezoid"
-  | "triangle"
-  | "";
-type StylePreference =
-  | "casual"
-  | "formal"
-  | "athletic"
-  | "streetwear"
-  | "";
-type ColorSeason = "spring" | "summer" | "autumn" | "winter" | "";
-
 type ProfileFormValues = z.infer<typeof profileSchema> & {
-  bodyType?: BodyType;
-  stylePreference?: StylePreference;
-  colorSeason?: ColorSeason;
+  bodyType?: BodyType | "";
+  stylePreference?: StyleTag | "";
+  colorSeason?: ColorSeason | "";
   notes?: string;
 };
 type MeasurementsFormValues = z.infer<typeof measurementsSchema>;
 
 // ==================== OPTIONS ARRAYS (For Select Inputs) ===========================
-const bodyTypeOptions = [
-  { value: "", label: "Select Body Type" },
-  { value: "pear", label: "Pear (wider hips, narrow shoulders)" },
-  { value: "hourglass", label: "Hourglass (bust ≈ hips, narrow waist)" },
-  { value: "rectangle", label: "Rectangle (bust ≈ waist ≈ hips)" },
-  { value: "invertedTriangle", label: "Inverted Triangle (broad shoulders, slimmer hips)" },
-  { value: "trapezoid", label: "Trapezoid (men, broad shoulders, slim waist)" },
-  { value: "triangle", label: "Triangle (men, narrower shoulders, wider waist/hips)" }
-];
+// Values come from the style taxonomy, so posts can be matched against what's picked here
+const stylePreferenceHints: Record<StyleTag, string> = {
+  casual: "comfortable, relaxed",
+  formal: "tailored, elegant",
+  athletic: "sporty, functional",
+  streetwear: "urban, trend-driven",
+};
+
+const colorSeasonHints: Record<ColorSeason, string> = {
+  spring: "warm, clear, light",
+  summer: "cool, soft, light",
+  autumn: "warm, deep, earthy",
+  winter: "cool, intense, deep",
+};
 
 const stylePreferenceOptions = [
   { value: "", label: "Select Style Preference" },
-  { value: "casual", label: "Casual (comfortable, relaxed)" },
-  { value: "formal", label: "Formal (tailored, elegant)" },
-  { value: "athletic", label: "Athletic (sporty, functional)" },
-  { value: "streetwear", label: "Streetwear (urban, trend-driven)" }
+  ...STYLE_TAGS.map((value) => ({ value, label: `${STYLE_TAG_LABELS[value]} (${stylePreferenceHints[value]})` })),
 ];
 
 const colorSeasonOptions = [
   { value: "", label: "Select Color Season" },
-  { value: "spring", label: "Spring (warm, clear, light)" },
-  { value: "summer", label: "Summer (cool, soft, light)" },
-  { value: "autumn", label: "Autumn (warm, deep, earthy)" },
-  { value: "winter", label: "Winter (cool, intense, deep)" }
+  ...COLOR_SEASONS.map((value) => ({ value, label: `${COLOR_SEASON_LABELS[value]} (${colorSeasonHints[value]})` })),
 ];
 
+// Saved values outside the taxonomy show as unset
+const sanitizeStyle = (user: Pick<UserProfile, "body_type" | "style_preference" | "color_season"> | null) => ({
+  bodyType: isBodyType(user?.body_type) ? user.body_type : ("" as const),
+  stylePreference: isStyleTag(user?.style_preference) ? user.style_preference : ("" as const),
+  colorSeason: isColorSeason(user?.color_season) ? user.color_season : ("" as const),
+});
+
+const isSkinTone = (value: unknown): value is SkinTone => SKIN_TONES.includes(value as SkinTone);
+
+const toMeasurementsForm = (measurements: Measurements | null | undefined): MeasurementsFormValues => ({
+  height: measurements?.height?.toString() ?? "",
+  chest: measurements?.chest?.toString() ?? "",
+  waist: measurements?.waist?.toString() ?? "",
+  hips: measurements?.hips?.toString() ?? "",
+  shoeSize: measurements?.shoe_size ?? "",
+  skinTone: measurements?.skin_tone ?? "",
+});
+
+const toCentimeters = (value: string | undefined) => (value ? Number(value) : null);
+
 const Profile = () => {
   const { user, isAuthenticated, updateUser, isLoading } = useAuth();
   const navigate = useNavigate();
   const [isEditMode, setIsEditMode] = useState(false);
   const [activeTab, setActiveTab] = useState("profile");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -127,9 +159,7 @@ const Profile = () => {
       email: user?.email || "",
       phone: user?.phone || "",
       gender: sanitizeGender(user?.gender),
-      bodyType: (user?.body_type as BodyType) || "",
-      stylePreference: (user?.style_preference as StylePreference) || "",
-      colorSeason: (user?.color_season as ColorSeason) || "",
+      ...sanitizeStyle(user),
       notes: user?.notes || "",
     }
   });
@@ -141,25 +171,27 @@ const Profile = () => {
       profileForm.setValue("email", user.email || "");
       profileForm.setValue("phone", user.phone || "");
       profileForm.setValue("gender", sanitizeGender(user.gender));
-      profileForm.setValue("bodyType", (user.body_type as BodyType) || "");
-      profileForm.setValue("stylePreference", (user.style_preference as StylePreference) || "");
-      profileForm.setValue("colorSeason", (user.color_season as ColorSeason) || "");
+      const style = sanitizeStyle(user);
+      profileForm.setValue("bodyType", style.bodyType);
+      profileForm.setValue("stylePreference", style.stylePreference);
+      profileForm.setValue("colorSeason", style.colorSeason);
       profileForm.setValue("notes", user.notes || "");
     }
   }, [user, profileForm]);
 
+  const { data: measurementsData } = useMeasurements();
+  const saveMeasurements = useSaveMeasurements();
   const measurementsForm = useForm<MeasurementsFormValues>({
     resolver: zodResolver(measurementsSchema),
-    defaultValues: {
-      height: "",
-      chest: "",
-      waist: "",
-      hips: "",
-      shoeSize: "",
-      skinTone: "",
-    }
+    defaultValues: toMeasurementsForm(null),
   });
 
+  // Fill the form once the saved measurements arrive
+  const savedMeasurements = measurementsData?.measurements;
+  useEffect(() => {
+    if (savedMeasurements) measurementsForm.reset(toMeasurementsForm(savedMeasurements));
+  }, [savedMeasurements, measurementsForm]);
+
   // Handle avatar upload
   const handleAvatarClick = () => {
     if (isEditMode && fileInputRef.current) {
@@ -167,32 +199,29 @@ const Profile = () => {
     }
   };
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset input value so the same file can be picked again after cancelling
+    event.target.value = "";
     if (!file) return;
 
-    // Check file size (limit to 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image size should be less than 5MB");
+    // Check file type
+    if (!AVATAR_SOURCE_TYPES.includes(file.type)) {
+      toast.error("Only JPEG, PNG and WebP images are allowed");
       return;
     }
 
-    // Check file type
-    if (!file.type.startsWith("image/")) {
-      toast.error("Only image files are allowed");
+    // Check file size; only the much smaller crop is uploaded
+    if (file.size > MAX_IMAGE_BYTES) {
+      toast.error("Image size should be less than 10MB");
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      try {
-        await updateUser({ avatar_url: e.target?.result as string });
-        toast.success("Profile picture updated");
-      } catch (error) {
-        toast.error("Failed to update profile picture");
-      }
-    };
-    reader.readAsDataURL(file);
+    setAvatarFile(file);
+  };
+
+  const handleAvatarSave = async (avatarUrl: string) => {
+    await updateUser({ avatar_url: avatarUrl });
   };
 
   // Get the first letter safely for the avatar fallback
@@ -223,8 +252,14 @@ const Profile = () => {
 
   // ------------- MEASUREMENTS FORM SUBMIT HANDLER ---------------
   const handleMeasurementsSubmit = (data: MeasurementsFormValues) => {
-    // For now, just show success message since measurements aren't in the backend yet
-    toast.success("Measurements updated successfully!");
+    saveMeasurements.mutate({
+      height: toCentimeters(data.height),
+      chest: toCentimeters(data.chest),
+      waist: toCentimeters(data.waist),
+      hips: toCentimeters(data.hips),
+      shoe_size: data.shoeSize?.trim() || null,
+      skin_tone: isSkinTone(data.skinTone) ? data.skinTone : null,
+    });
   };
 
   // Show loading state
@@ -281,13 +316,18 @@ const Profile = () => {
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept="image/*"
+                      accept={AVATAR_SOURCE_TYPES.join(",")}
                       className="hidden"
                       onChange={handleFileChange}
                     />
                   </div>
                 )}
               </div>
+              <AvatarCropDialog
+                file={avatarFile}
+                onOpenChange={(open) => !open && setAvatarFile(null)}
+                onSave={handleAvatarSave}
+              />
               <div className="flex-1">
                 <h1 className="text-2xl font-bold">{user.name}</h1>
                 <p className="text-gray-500">{user.email}</p>
@@ -617,7 +657,7 @@ const Profile = () => {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Skin Tone</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Select skin tone" />
@@ -639,7 +679,9 @@ const Profile = () => {
                     />
                   </div>
 
-                  <Button type="submit">Update Measurements</Button>
+                  <Button type="submit" disabled={saveMeasurements.isPending}>
+                    {saveMeasurements.isPending ? "Saving..." : "Update Measurements"}
+                  </Button>
                   
                   <MeasurementGuide />
                 </form>
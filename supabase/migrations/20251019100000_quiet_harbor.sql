@@ -0,0 +1,10 @@
+/*
+  # Keyset pagination index for posts
+
+  1. Indexes
+    - Add a composite `(created_at DESC, id DESC)` index on `posts`
+    - Feeds page through posts by this keyset instead of OFFSET, so the index
+      lets each page seek straight to the cursor
+*/
+
+CREATE INDEX IF NOT EXISTS idx_posts_created_at_id ON posts(created_at DESC, id DESC);
@@ -0,0 +1,65 @@
+/*
+  # Filterable post attributes
+
+  1. Changes to `posts`
+    - `category` (text, optional) - shopping category the post is listed under
+    - `price_min` (numeric, optional) - lower bound of the price, parsed from `price`
+    - `price_max` (numeric, optional) - upper bound of the price, equal to `price_min`
+      for single prices
+
+  2. Functions & Triggers
+    - `price_bound(price, part)` parses one side of a free-text price such as
+      "₹9,969-₹29,069" (part 1) or "₹1,999" (part 1, part 2 falls back to part 1)
+    - `set_post_price_bounds` keeps `price_min` / `price_max` in sync whenever
+      `price` is written
+
+  3. Data
+    - Backfill bounds for existing posts without touching `updated_at`
+
+  4. Indexes
+    - Indexes on `category`, `type` and the price bounds used by feed filters
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS price_min numeric;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS price_max numeric;
+
+CREATE OR REPLACE FUNCTION price_bound(price text, part integer)
+RETURNS numeric AS $$
+DECLARE
+  parts text[];
+  value text;
+BEGIN
+  parts := regexp_split_to_array(regexp_replace(coalesce(price, ''), '[^0-9.\-–]', '', 'g'), '[-–]');
+  value := coalesce(nullif(parts[part], ''), nullif(parts[1], ''));
+  IF value IS NULL OR value !~ '^\d+(\.\d+)?$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN value::numeric;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION set_post_price_bounds()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.price_min = price_bound(NEW.price, 1);
+  NEW.price_max = price_bound(NEW.price, 2);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_post_price_bounds ON posts;
+CREATE TRIGGER set_post_price_bounds
+  BEFORE INSERT OR UPDATE OF price ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION set_post_price_bounds();
+
+-- Backfill existing rows; skip the updated_at trigger so posts don't look freshly edited
+ALTER TABLE posts DISABLE TRIGGER update_posts_updated_at;
+UPDATE posts SET price_min = price_bound(price, 1), price_max = price_bound(price, 2);
+ALTER TABLE posts ENABLE TRIGGER update_posts_updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_posts_category ON posts(category);
+CREATE INDEX IF NOT EXISTS idx_posts_type ON posts(type);
+CREATE INDEX IF NOT EXISTS idx_posts_price_min ON posts(price_min);
+CREATE INDEX IF NOT EXISTS idx_posts_price_max ON posts(price_max);
@@ -0,0 +1,55 @@
+/*
+  # Structured post prices
+
+  1. Changes to `posts`
+    - `price_currency` (text, ISO 4217 code, default 'INR')
+    - `price_min` / `price_max` become the source of truth for a post's price;
+      `price` is kept as the formatted display text for older readers
+    - CHECK that `price_max` is not below `price_min`
+
+  2. Data
+    - Backfill `price_currency` from the symbol in existing text prices
+      (₹/Rs → INR, $ → USD, € → EUR, £ → GBP)
+
+  3. Triggers
+    - `set_post_price_bounds` now only parses `price` when the writer did not
+      supply the amounts itself, so structured writes are never overwritten
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS price_currency text NOT NULL DEFAULT 'INR';
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_price_currency_check;
+ALTER TABLE posts ADD CONSTRAINT posts_price_currency_check CHECK (price_currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE posts DISABLE TRIGGER update_posts_updated_at;
+UPDATE posts SET price_currency = CASE
+    WHEN price ~ '\$' THEN 'USD'
+    WHEN price ~ '€' THEN 'EUR'
+    WHEN price ~ '£' THEN 'GBP'
+    ELSE 'INR'
+  END;
+-- Bounds parsed from ranges written high-low
+UPDATE posts SET price_min = price_max, price_max = price_min WHERE price_max < price_min;
+ALTER TABLE posts ENABLE TRIGGER update_posts_updated_at;
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_price_range_check;
+ALTER TABLE posts ADD CONSTRAINT posts_price_range_check CHECK (price_max >= price_min);
+
+CREATE OR REPLACE FUNCTION set_post_price_bounds()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.price_min IS NULL THEN
+      NEW.price_min = price_bound(NEW.price, 1);
+      NEW.price_max = price_bound(NEW.price, 2);
+    END IF;
+  ELSIF NEW.price_min IS NOT DISTINCT FROM OLD.price_min
+    AND NEW.price_max IS NOT DISTINCT FROM OLD.price_max THEN
+    -- Only the legacy text changed
+    NEW.price_min = price_bound(NEW.price, 1);
+    NEW.price_max = price_bound(NEW.price, 2);
+  END IF;
+  NEW.price_max = coalesce(NEW.price_max, NEW.price_min);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
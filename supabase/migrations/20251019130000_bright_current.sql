@@ -0,0 +1,23 @@
+/*
+  # Realtime for posts, wishlist items and follows
+
+  1. Publication
+    - Add `posts`, `wishlist_items` and `follows` to `supabase_realtime` so clients
+      can subscribe to their changes. Row level security still decides which
+      inserts and updates each subscriber receives; deletes only carry the
+      primary key.
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['posts', 'wishlist_items', 'follows'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,33 @@
+/*
+  # Scheduled publishing
+
+  1. Changes to `posts`
+    - `publish_at` (timestamptz, default now()) - when a published post becomes
+      visible; existing posts are backfilled from `created_at`
+    - Feeds order and page by `(publish_at DESC, id DESC)`, so a scheduled post
+      shows up at the top of the feed when it goes live
+
+  2. Security
+    - "Anyone can read published posts" now also requires `publish_at` to have
+      passed; authors still see their own scheduled posts through
+      "Authors can manage own posts"
+
+  3. Indexes
+    - Replace the `(created_at DESC, id DESC)` keyset index with
+      `(publish_at DESC, id DESC)`
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_at timestamptz;
+UPDATE posts SET publish_at = coalesce(created_at, now()) WHERE publish_at IS NULL;
+ALTER TABLE posts ALTER COLUMN publish_at SET DEFAULT now();
+ALTER TABLE posts ALTER COLUMN publish_at SET NOT NULL;
+
+DROP POLICY IF EXISTS "Anyone can read published posts" ON posts;
+CREATE POLICY "Anyone can read published posts"
+  ON posts
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_published = true AND publish_at <= now());
+
+DROP INDEX IF EXISTS idx_posts_created_at_id;
+CREATE INDEX IF NOT EXISTS idx_posts_publish_at_id ON posts(publish_at DESC, id DESC);
@@ -0,0 +1,51 @@
+/*
+  # Storage bucket for post media
+
+  1. Bucket
+    - `post-media`: public, so feeds can load files by URL without signing them
+    - Accepts JPEG, PNG, WebP and GIF images and MP4, WebM and QuickTime videos
+      up to 100 MB. The client holds images to a lower 10 MB limit.
+
+  2. Security
+    - Anyone can read post media
+    - Signed-in users can only upload, replace and delete files in the folder
+      named after their own user id, e.g. `<user id>/<file>.jpg`
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'post-media',
+  'post-media',
+  true,
+  104857600,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'video/mp4', 'video/webm', 'video/quicktime']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Anyone can view post media"
+  ON storage.objects
+  FOR SELECT
+  TO anon, authenticated
+  USING (bucket_id = 'post-media');
+
+CREATE POLICY "Users can upload post media to their own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'post-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update their own post media"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'post-media' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'post-media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own post media"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'post-media' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,11 @@
+/*
+  # Thumbnails and placeholders for post media
+
+  1. Changes to `posts`
+    - `media_meta` (jsonb, default '{}') - extra renditions of uploaded images,
+      keyed by their URL in `media_urls`:
+      `{ "<url>": { "thumbnail_url", "blurhash", "width", "height" } }`.
+      Media without an entry (samples, videos, older uploads) is shown as is.
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS media_meta jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,67 @@
+/*
+  # Avatars in object storage
+
+  1. Bucket
+    - `avatars`: public, JPEG, PNG and WebP up to 2 MB. Each avatar is stored as
+      `<user id>/<file>` at 512px with a 128px copy at `<user id>/<file>-small`,
+      and `users.avatar_url` holds the public URL of the large one.
+
+  2. Security
+    - Anyone can read avatars
+    - Signed-in users can only upload, replace and delete files in the folder
+      named after their own user id
+
+  3. Data
+    - New table `legacy_avatars` holds the base64 data URLs previously written
+      straight into `users.avatar_url`, which bloated every query selecting it.
+      Those users' `avatar_url` is cleared until
+      `server/scripts/migrate-legacy-avatars.js` uploads the images to the bucket
+      and points `avatar_url` at them.
+    - RLS is enabled with no policies, so only the service role can read it
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Anyone can view avatars"
+  ON storage.objects
+  FOR SELECT
+  TO anon, authenticated
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload avatars to their own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update their own avatars"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own avatars"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE TABLE IF NOT EXISTS legacy_avatars (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  data_url text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE legacy_avatars ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO legacy_avatars (user_id, data_url)
+SELECT id, avatar_url FROM users WHERE avatar_url LIKE 'data:%'
+ON CONFLICT (user_id) DO NOTHING;
+
+UPDATE users SET avatar_url = NULL WHERE avatar_url LIKE 'data:%';
@@ -0,0 +1,81 @@
+/*
+  # Products tagged in posts
+
+  1. New table `post_products`
+    - One row per product pinned on a post's photo: `title`, `image_url`, `link`,
+      optional `price` and `price_currency`
+    - `media_index` is the photo in `media_urls` the pin sits on, and `position_x` and
+      `position_y` place it as a percentage of that photo's width and height
+    - `sort_order` keeps the order the author tagged them in, which is also the
+      number shown on each pin
+
+  2. Security
+    - Anyone can read the products of posts they can read
+    - Authors can manage the products of their own posts
+
+  3. Functions
+    - `set_post_products(post_id, products)` replaces a post's products in one
+      transaction, so readers never see half a list. It runs as the caller, so the
+      policies above still apply.
+*/
+
+CREATE TABLE IF NOT EXISTS post_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  image_url text,
+  link text NOT NULL,
+  price numeric(12, 2) CHECK (price >= 0),
+  price_currency text NOT NULL DEFAULT 'INR' CHECK (price_currency ~ '^[A-Z]{3}$'),
+  media_index integer NOT NULL DEFAULT 0 CHECK (media_index >= 0),
+  position_x numeric(5, 2) NOT NULL CHECK (position_x BETWEEN 0 AND 100),
+  position_y numeric(5, 2) NOT NULL CHECK (position_y BETWEEN 0 AND 100),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_products_post_id ON post_products(post_id, sort_order);
+
+ALTER TABLE post_products ENABLE ROW LEVEL SECURITY;
+
+-- The subqueries are filtered by the posts policies, so drafts stay hidden with their posts
+CREATE POLICY "Anyone can read products of readable posts"
+  ON post_products
+  FOR SELECT
+  TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_products.post_id));
+
+CREATE POLICY "Authors can manage products of own posts"
+  ON post_products
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_products.post_id AND posts.author_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM posts WHERE posts.id = post_products.post_id AND posts.author_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION set_post_products(post_id uuid, products jsonb)
+RETURNS SETOF post_products AS $$
+BEGIN
+  DELETE FROM post_products WHERE post_products.post_id = set_post_products.post_id;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO post_products (
+      post_id, title, image_url, link, price, price_currency, media_index, position_x, position_y, sort_order
+    )
+    SELECT
+      set_post_products.post_id,
+      product.value->>'title',
+      product.value->>'image_url',
+      product.value->>'link',
+      (product.value->>'price')::numeric,
+      coalesce(product.value->>'price_currency', 'INR'),
+      coalesce((product.value->>'media_index')::integer, 0),
+      (product.value->>'position_x')::numeric,
+      (product.value->>'position_y')::numeric,
+      product.ordinality - 1
+    FROM jsonb_array_elements(products) WITH ORDINALITY AS product(value, ordinality)
+    RETURNING *
+  )
+  SELECT * FROM inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,56 @@
+/*
+  # Wishlist counts for sorting posts
+
+  1. Changes to `posts`
+    - `wishlist_count` (integer, default 0) - how many users have the post in their
+      wishlist. Wishlist rows are private to their owner, so the count is kept here for
+      the "most wishlisted" sort rather than counted per query.
+    - Backfilled from `wishlist_items`
+
+  2. Triggers
+    - Adding or removing a wishlist item adjusts the post's count. The function runs as
+      its owner, since shoppers can't update other people's posts.
+    - `update_posts_updated_at` now skips count-only updates, so wishlisting a post
+      doesn't make it look edited
+
+  3. Indexes
+    - Keyset paging for each sort: by count, by lowest price and by highest price,
+      with `id` breaking ties
+*/
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS wishlist_count integer NOT NULL DEFAULT 0;
+
+DROP TRIGGER IF EXISTS update_posts_updated_at ON posts;
+CREATE TRIGGER update_posts_updated_at BEFORE UPDATE ON posts
+  FOR EACH ROW
+  WHEN (OLD.wishlist_count IS NOT DISTINCT FROM NEW.wishlist_count)
+  EXECUTE FUNCTION update_updated_at_column();
+
+UPDATE posts
+SET wishlist_count = counts.total
+FROM (
+  SELECT post_id, count(*) AS total
+  FROM wishlist_items
+  GROUP BY post_id
+) AS counts
+WHERE posts.id = counts.post_id;
+
+CREATE OR REPLACE FUNCTION update_post_wishlist_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE posts SET wishlist_count = wishlist_count + 1 WHERE id = NEW.post_id;
+  ELSE
+    UPDATE posts SET wishlist_count = greatest(wishlist_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_post_wishlist_count ON wishlist_items;
+CREATE TRIGGER update_post_wishlist_count AFTER INSERT OR DELETE ON wishlist_items
+  FOR EACH ROW EXECUTE FUNCTION update_post_wishlist_count();
+
+CREATE INDEX IF NOT EXISTS idx_posts_wishlist_count_id ON posts(wishlist_count DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_price_min_id ON posts(price_min ASC NULLS LAST, id ASC);
+CREATE INDEX IF NOT EXISTS idx_posts_price_max_id ON posts(price_max DESC NULLS LAST, id DESC);
@@ -0,0 +1,58 @@
+/*
+  # Style attributes on posts
+
+  1. Changes to `posts`
+    - `body_types` (text[], default empty) - body types the look suits
+    - `style_tags` (text[], default empty) - styles it belongs to
+    - `color_seasons` (text[], default empty) - color seasons its palette flatters
+    - `occasions` (text[], default empty) - occasions it's worn for
+    - `gender_fit` (text, nullable) - `female`, `male` or `unisex`
+    - Empty arrays and a null fit mean the post isn't tagged with that attribute
+
+  2. Constraints
+    - Every value must come from the taxonomy in `src/lib/styleAttributes.ts`. Body
+      types, styles and color seasons use the same values as the profile's `body_type`,
+      `style_preference` and `color_season`, so posts can be matched against profiles.
+
+  3. Indexes
+    - GIN indexes on the arrays, so feeds can filter by containment (`@>`) and overlap (`&&`)
+    - A btree index on `gender_fit`
+*/
+
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS body_types text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS style_tags text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS color_seasons text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS occasions text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS gender_fit text;
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_body_types_check;
+ALTER TABLE posts ADD CONSTRAINT posts_body_types_check CHECK (
+  body_types <@ ARRAY['pear', 'hourglass', 'rectangle', 'invertedTriangle', 'trapezoid', 'triangle']::text[]
+);
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_style_tags_check;
+ALTER TABLE posts ADD CONSTRAINT posts_style_tags_check CHECK (
+  style_tags <@ ARRAY['casual', 'formal', 'athletic', 'streetwear']::text[]
+);
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_color_seasons_check;
+ALTER TABLE posts ADD CONSTRAINT posts_color_seasons_check CHECK (
+  color_seasons <@ ARRAY['spring', 'summer', 'autumn', 'winter']::text[]
+);
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_occasions_check;
+ALTER TABLE posts ADD CONSTRAINT posts_occasions_check CHECK (
+  occasions <@ ARRAY['everyday', 'work', 'party', 'wedding', 'vacation', 'workout', 'date']::text[]
+);
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_gender_fit_check;
+ALTER TABLE posts ADD CONSTRAINT posts_gender_fit_check CHECK (
+  gender_fit IS NULL OR gender_fit IN ('female', 'male', 'unisex')
+);
+
+CREATE INDEX IF NOT EXISTS posts_body_types_idx ON posts USING gin (body_types);
+CREATE INDEX IF NOT EXISTS posts_style_tags_idx ON posts USING gin (style_tags);
+CREATE INDEX IF NOT EXISTS posts_color_seasons_idx ON posts USING gin (color_seasons);
+CREATE INDEX IF NOT EXISTS posts_occasions_idx ON posts USING gin (occasions);
+CREATE INDEX IF NOT EXISTS posts_gender_fit_idx ON posts (gender_fit);
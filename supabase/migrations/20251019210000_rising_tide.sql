@@ -0,0 +1,73 @@
+/*
+  # Post views and engagement events for trending
+
+  1. New table `post_views`
+    - `id` (uuid, primary key)
+    - `post_id` (uuid) - the post opened, removed with it
+    - `viewer_id` (uuid, nullable) - the signed-in viewer; null for visitors
+    - `created_at` (timestamptz)
+
+  2. Security
+    - Anyone can record a view of a live post, as themselves or anonymously
+    - Nobody can read views directly; they're only counted through the function below
+
+  3. Functions
+    - `get_engagement_events(since)`: every wishlist add and view of a live post, and
+      every follow, since the given time but no more than 28 days back. Rows name the
+      post (and its author and category) or the followed user, never who acted, so the
+      function can run as its owner and read past the row level security on wishlists.
+
+  4. Indexes
+    - `created_at` on views, wishlist items and follows, for reading recent events
+*/
+
+CREATE TABLE IF NOT EXISTS post_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  viewer_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE post_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record views of live posts"
+  ON post_views
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    (viewer_id IS NULL OR viewer_id = auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM posts
+      WHERE posts.id = post_id AND posts.is_published AND posts.publish_at <= now()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION get_engagement_events(since timestamptz)
+RETURNS TABLE (kind text, post_id uuid, user_id uuid, category text, created_at timestamptz) AS $$
+  WITH bounds AS (
+    SELECT greatest(since, now() - interval '28 days') AS start_at
+  ),
+  live_posts AS (
+    SELECT id, author_id, category FROM posts WHERE is_published AND publish_at <= now()
+  )
+  SELECT 'wishlist', p.id, p.author_id, p.category, w.created_at
+  FROM wishlist_items w
+  JOIN live_posts p ON p.id = w.post_id, bounds
+  WHERE w.created_at >= bounds.start_at
+  UNION ALL
+  SELECT 'view', p.id, p.author_id, p.category, v.created_at
+  FROM post_views v
+  JOIN live_posts p ON p.id = v.post_id, bounds
+  WHERE v.created_at >= bounds.start_at
+  UNION ALL
+  SELECT 'follow', NULL, f.following_id, NULL, f.created_at
+  FROM follows f, bounds
+  WHERE f.created_at >= bounds.start_at AND f.following_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_engagement_events(timestamptz) TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_post_views_created_at ON post_views(created_at);
+CREATE INDEX IF NOT EXISTS idx_post_views_post_id ON post_views(post_id);
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_created_at ON wishlist_items(created_at);
+CREATE INDEX IF NOT EXISTS idx_follows_created_at ON follows(created_at);
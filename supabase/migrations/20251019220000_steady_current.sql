@@ -0,0 +1,147 @@
+/*
+  # Trending computed in the database, and one view per viewer a day
+
+  1. Changes to `post_views`
+    - `viewed_on` (date) - the UTC day of the view, backfilled from `created_at`
+    - Repeat views of a post by the same viewer on the same day are removed, and a
+      unique index on (post_id, viewer_id, viewed_on) keeps them out from now on
+
+  2. Security
+    - Only signed-in users can record views, as themselves, for today and the current
+      time. Visitors who aren't signed in aren't counted, since nothing would stop one
+      script from posting any number of anonymous views.
+
+  3. Functions
+    - `get_engagement_events` is dropped: every client downloaded every raw event, and
+      PostgREST cut the list off at its row limit
+    - `get_trending(max_rows)`: the top posts, categories and influencers by engagement
+      over the last seven days, at most `max_rows` (up to 100) of each. Each row has the
+      decayed score used for ranking, the weighted totals for this week and last week,
+      and this week's views, wishlist adds and follows. Weights and half-life match
+      `src/lib/trending.ts`: a view counts 1, a wishlist add 5 and a follow 8, halving
+      every 3 days. Rows never say who acted, so the function runs as its owner and
+      reads past the row level security on wishlists.
+*/
+
+ALTER TABLE post_views ADD COLUMN IF NOT EXISTS viewed_on date NOT NULL DEFAULT (now() AT TIME ZONE 'UTC')::date;
+UPDATE post_views SET viewed_on = (created_at AT TIME ZONE 'UTC')::date;
+
+DELETE FROM post_views
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY post_id, viewer_id, viewed_on ORDER BY created_at) AS position
+    FROM post_views
+    WHERE viewer_id IS NOT NULL
+  ) AS repeats
+  WHERE position > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_post_views_viewer_day ON post_views(post_id, viewer_id, viewed_on);
+
+DROP POLICY IF EXISTS "Anyone can record views of live posts" ON post_views;
+
+CREATE POLICY "Users can record their own views of live posts"
+  ON post_views
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    viewer_id = auth.uid()
+    AND viewed_on = (now() AT TIME ZONE 'UTC')::date
+    AND created_at BETWEEN now() - interval '1 minute' AND now() + interval '1 minute'
+    AND EXISTS (
+      SELECT 1 FROM posts
+      WHERE posts.id = post_id AND posts.is_published AND posts.publish_at <= now()
+    )
+  );
+
+DROP FUNCTION IF EXISTS get_engagement_events(timestamptz);
+
+CREATE OR REPLACE FUNCTION get_trending(max_rows integer DEFAULT 20)
+RETURNS TABLE (
+  scope text,
+  id text,
+  score double precision,
+  this_week double precision,
+  last_week double precision,
+  views integer,
+  wishlists integer,
+  follows integer
+) AS $$
+  WITH live_posts AS (
+    SELECT p.id, p.author_id, p.category
+    FROM posts p
+    WHERE p.is_published AND p.publish_at <= now()
+  ),
+  events AS (
+    SELECT 'wishlist' AS kind, p.id AS post_id, p.author_id AS user_id, p.category, w.created_at
+    FROM wishlist_items w
+    JOIN live_posts p ON p.id = w.post_id
+    WHERE w.created_at >= now() - interval '14 days'
+    UNION ALL
+    SELECT 'view', p.id, p.author_id, p.category, v.created_at
+    FROM post_views v
+    JOIN live_posts p ON p.id = v.post_id
+    WHERE v.created_at >= now() - interval '14 days'
+    UNION ALL
+    SELECT 'follow', NULL, f.following_id, NULL, f.created_at
+    FROM follows f
+    WHERE f.created_at >= now() - interval '14 days' AND f.following_id IS NOT NULL
+  ),
+  weighted AS (
+    SELECT
+      e.kind,
+      e.post_id,
+      e.user_id,
+      e.category,
+      CASE e.kind WHEN 'view' THEN 1 WHEN 'wishlist' THEN 5 ELSE 8 END AS weight,
+      -- Clock skew can put an event a moment in the future; count it as just now
+      greatest(extract(epoch FROM now() - e.created_at) / 86400, 0)::double precision AS age_days
+    FROM events e
+  ),
+  scoped AS (
+    SELECT 'post' AS scope, w.post_id::text AS id, w.kind, w.weight, w.age_days
+    FROM weighted w
+    WHERE w.post_id IS NOT NULL
+    UNION ALL
+    SELECT 'category', w.category, w.kind, w.weight, w.age_days
+    FROM weighted w
+    WHERE w.category IS NOT NULL
+    UNION ALL
+    SELECT 'creator', w.user_id::text, w.kind, w.weight, w.age_days
+    FROM weighted w
+    JOIN users u ON u.id = w.user_id
+    WHERE u.is_influencer
+  ),
+  totals AS (
+    SELECT
+      s.scope,
+      s.id,
+      coalesce(sum(s.weight * power(0.5, s.age_days / 3)) FILTER (WHERE s.age_days < 7), 0) AS score,
+      coalesce(sum(s.weight) FILTER (WHERE s.age_days < 7), 0) AS this_week,
+      coalesce(sum(s.weight) FILTER (WHERE s.age_days >= 7), 0) AS last_week,
+      count(*) FILTER (WHERE s.age_days < 7 AND s.kind = 'view') AS views,
+      count(*) FILTER (WHERE s.age_days < 7 AND s.kind = 'wishlist') AS wishlists,
+      count(*) FILTER (WHERE s.age_days < 7 AND s.kind = 'follow') AS follows
+    FROM scoped s
+    GROUP BY s.scope, s.id
+  ),
+  ranked AS (
+    SELECT t.*, row_number() OVER (PARTITION BY t.scope ORDER BY t.score DESC, t.this_week DESC) AS position
+    FROM totals t
+    WHERE t.this_week > 0
+  )
+  SELECT
+    r.scope,
+    r.id,
+    r.score::double precision,
+    r.this_week::double precision,
+    r.last_week::double precision,
+    r.views::integer,
+    r.wishlists::integer,
+    r.follows::integer
+  FROM ranked r
+  WHERE r.position <= least(greatest(max_rows, 1), 100)
+  ORDER BY r.scope, r.position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_trending(integer) TO anon, authenticated;
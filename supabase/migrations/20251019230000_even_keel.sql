@@ -0,0 +1,45 @@
+/*
+  # Parse legacy text prices the same way as the app
+
+  1. Functions
+    - `price_bound(price, part)` cleans each side of the range on its own, like
+      `parsePrice` in `src/lib/price.ts`: everything but digits and dots is dropped, then
+      dots left at either end by abbreviations like "Rs." are trimmed. Before, "Rs. 1,999"
+      became ".1999" and no price was stored.
+    - Part 1 is now the lower bound and part 2 the upper one, so ranges written high-low
+      no longer break the check that `price_max` is not below `price_min`. A second side
+      that doesn't parse falls back to the first.
+
+  2. Data
+    - Fill in bounds for posts whose text price can now be parsed, without touching
+      `updated_at`
+*/
+
+CREATE OR REPLACE FUNCTION price_bound(price text, part integer)
+RETURNS numeric AS $$
+DECLARE
+  parts text[];
+  low text;
+  high text;
+BEGIN
+  parts := regexp_split_to_array(coalesce(price, ''), '[-–]');
+  low := btrim(regexp_replace(parts[1], '[^0-9.]', '', 'g'), '.');
+  IF low !~ '^\d+(\.\d+)?$' THEN
+    RETURN NULL;
+  END IF;
+  high := btrim(regexp_replace(coalesce(parts[2], ''), '[^0-9.]', '', 'g'), '.');
+  IF high !~ '^\d+(\.\d+)?$' THEN
+    high := low;
+  END IF;
+  IF part = 1 THEN
+    RETURN least(low::numeric, high::numeric);
+  END IF;
+  RETURN greatest(low::numeric, high::numeric);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE posts DISABLE TRIGGER update_posts_updated_at;
+UPDATE posts
+SET price_min = price_bound(price, 1), price_max = price_bound(price, 2)
+WHERE price_min IS NULL AND price IS NOT NULL;
+ALTER TABLE posts ENABLE TRIGGER update_posts_updated_at;
@@ -0,0 +1,24 @@
+/*
+  # Following feed filtered in the database
+
+  1. Views
+    - `followed_posts`: posts by the users the signed-in user follows. The feed used to
+      send every followed user's id in the request URL, which outgrew URL length limits
+      with a few hundred follows. It has the columns of `posts`, so the client still
+      embeds the author, filters, orders and pages it as it does any other post query.
+      It runs as the caller, so the usual row level security on posts applies.
+
+  2. Indexes
+    - Posts by author in feed order, for paging each followed user's posts
+*/
+
+CREATE OR REPLACE VIEW followed_posts WITH (security_invoker = true) AS
+  SELECT p.*
+  FROM posts p
+  WHERE p.author_id IN (
+    SELECT f.following_id FROM follows f WHERE f.follower_id = auth.uid()
+  );
+
+GRANT SELECT ON followed_posts TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_posts_author_publish_at ON posts(author_id, publish_at DESC, id DESC);
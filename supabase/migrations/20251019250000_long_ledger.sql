@@ -0,0 +1,17 @@
+/*
+  # Paged follower and following lists
+
+  1. Changes to `follows`
+    - `created_at` is filled in where missing and becomes NOT NULL, so lists can page
+      by it without rows falling between pages
+
+  2. Indexes
+    - Each user's followers and follows newest first, with `id` breaking ties, for keyset
+      paging of the lists
+*/
+
+UPDATE follows SET created_at = now() WHERE created_at IS NULL;
+ALTER TABLE follows ALTER COLUMN created_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_follows_following_created ON follows(following_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_follows_follower_created ON follows(follower_id, created_at DESC, id DESC);